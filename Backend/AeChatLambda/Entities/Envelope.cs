@@ -6,6 +6,10 @@ namespace AeChatLambda.Entities
     [DataContract]
     public class Envelope
     {
+        public const int ProtocolVersion = 1;
+
+        [DataMember(Name = "version")]
+        public int? Version { get; set; }
         [DataMember(Name = "roomId")]
         public Guid RoomId { get; set; }
         [DataMember(Name = "fromId")]
@@ -14,6 +18,7 @@ namespace AeChatLambda.Entities
         public Guid ToId { get; set; }
         [DataMember(Name = "type")]
         public string Type { get; set; }
+        // JSON encoded, so that clients from before versioning can still decode it
         [DataMember(Name = "data")]
         public string Data { get; set; }
     }
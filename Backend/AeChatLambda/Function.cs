@@ -17,6 +17,7 @@ using MaxMind.GeoIP2;
 using MaxMind.GeoIP2.Responses;
 using Newtonsoft.Json;
 using Newtonsoft.Json.Converters;
+using Newtonsoft.Json.Linq;
 
 namespace AeChatLambda
 {
@@ -60,8 +61,20 @@ namespace AeChatLambda
 
             if(request?.RequestContext?.RouteKey == RouteKey.Default)
             {
-                var envelope = JsonConvert.DeserializeObject<Envelope>(request.Body);
-                ProcessMessage(envelope, request).GetAwaiter().GetResult();
+                Envelope envelope = null;
+                try
+                {
+                    envelope = JsonConvert.DeserializeObject<Envelope>(request.Body);
+                }
+                catch (JsonException e)
+                {
+                    Console.WriteLine($"Ignoring malformed message: {e.Message}");
+                }
+
+                if (envelope != null)
+                {
+                    ProcessMessage(envelope, request).GetAwaiter().GetResult();
+                }
             }
 
             Console.WriteLine(JsonConvert.SerializeObject(request, serialiserSettings));
@@ -97,12 +110,17 @@ namespace AeChatLambda
             switch (envelope.Type)
             {
                 case "discover":
-                    await AddConnection(envelope.RoomId, envelope.FromId, request.RequestContext.ConnectionId, Guid.Parse(JsonConvert.DeserializeObject<string>(envelope.Data)));
+                    if (!TryGetSessionId(envelope, out var sessionId))
+                    {
+                        Console.WriteLine($"Ignoring discover from {envelope.FromId} without a valid session ID");
+                        break;
+                    }
+
+                    await AddConnection(envelope.RoomId, envelope.FromId, request.RequestContext.ConnectionId, sessionId);
                     await Broadcast(envelope, request.RequestContext.ConnectionId);
                     await BroadcastLocation(envelope, request);
                     break;
                 case "acknowledge":
-                    envelope.Data = null;
                     await SendTo(envelope);
                     await BroadcastLocation(envelope, request);
                     break;
@@ -112,10 +130,31 @@ namespace AeChatLambda
             }
         }
 
+        private static bool TryGetSessionId(Envelope envelope, out Guid sessionId)
+        {
+            sessionId = Guid.Empty;
+
+            JToken data;
+            try
+            {
+                data = envelope.Data == null ? null : JToken.Parse(envelope.Data);
+            }
+            catch (JsonReaderException)
+            {
+                return false;
+            }
+
+            // Clients before protocol versioning sent the session ID on its own
+            var token = envelope.Version == null ? data : (data as JObject)?["sessionId"];
+
+            return token?.Type == JTokenType.String && Guid.TryParse(token.Value<string>(), out sessionId);
+        }
+
         private async Task BroadcastLocation(Envelope envelope, WsRequest request)
         {
             var locationEnvelope = new Envelope
             {
+                Version = Envelope.ProtocolVersion,
                 Data = JsonConvert.SerializeObject(new Location(await GetCity(request.RequestContext.Identity))),
                 FromId = envelope.FromId,
                 RoomId = envelope.RoomId,
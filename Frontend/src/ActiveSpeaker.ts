@@ -0,0 +1,134 @@
+import { ConnectionManager } from "./ConnectionManager";
+import { IUserMedia } from "./UserMedia";
+
+interface OnActiveSpeakerChangedDelegate {
+    (clientId: string): void;
+}
+
+interface OnAudioLevelsDelegate {
+    (levels: { [clientId: string]: number; }): void;
+}
+
+// Works out who is talking from how loud each attendee is. Levels are smoothed
+// so that the highlight doesn't flicker between words, and somebody else has to
+// be clearly louder for a while before they take over as the active speaker.
+export class ActiveSpeakerDetector {
+    private readonly userMedia: IUserMedia;
+    private readonly connectionManager: ConnectionManager;
+    private levels: { [clientId: string]: number; } = {};
+    private activeSpeaker: string = null;
+    private candidate: string = null;
+    private candidateSince: number = 0;
+    private lastSpokeAt: number = 0;
+    private pollInterval: number;
+
+    private static readonly PollPeriod: number = 50;
+    // Levels are mapped from this many decibels up to full scale onto 0 to 1
+    private static readonly LevelFloor: number = -60;
+    // Levels rise quickly when someone starts talking, and fall away slowly
+    private static readonly RiseSmoothing: number = 0.5;
+    private static readonly FallSmoothing: number = 0.1;
+    private static readonly SpeakingLevel: number = 0.3;
+    // How much louder than the active speaker someone needs to be, and for how long
+    private static readonly SwitchMargin: number = 0.1;
+    private static readonly SwitchTime: number = 400;
+    // After this long with nobody talking there is no active speaker
+    private static readonly SilenceTime: number = 2000;
+
+    public OnActiveSpeakerChanged: OnActiveSpeakerChangedDelegate;
+    public OnAudioLevels: OnAudioLevelsDelegate;
+
+    constructor(userMedia: IUserMedia, connectionManager: ConnectionManager) {
+        this.userMedia = userMedia;
+        this.connectionManager = connectionManager;
+    }
+
+    public Start(): void {
+        this.Stop();
+        this.pollInterval = window.setInterval(() => this.Update(), ActiveSpeakerDetector.PollPeriod);
+    }
+
+    public Stop(): void {
+        clearInterval(this.pollInterval);
+    }
+
+    public GetActiveSpeaker(): string {
+        return this.activeSpeaker;
+    }
+
+    public GetLevel(clientId: string): number {
+        return this.levels.hasOwnProperty(clientId) ? this.levels[clientId] : 0;
+    }
+
+    private Update(): void {
+        const now: number = Date.now();
+        const levels: { [clientId: string]: number; } = {};
+
+        this.connectionManager.GetClientIds().forEach(clientId => {
+            const level: number = ActiveSpeakerDetector.NormaliseLevel(this.userMedia.GetRemoteLevel(clientId));
+            const previous: number = this.GetLevel(clientId);
+            const smoothing: number = level > previous ? ActiveSpeakerDetector.RiseSmoothing : ActiveSpeakerDetector.FallSmoothing;
+            levels[clientId] = previous + (level - previous) * smoothing;
+        });
+
+        this.levels = levels;
+
+        let loudest: string = null;
+        for (let clientId in levels) {
+            if (levels[clientId] >= ActiveSpeakerDetector.SpeakingLevel && (loudest == null || levels[clientId] > levels[loudest])) {
+                loudest = clientId;
+            }
+        }
+
+        if (loudest != null) {
+            this.lastSpokeAt = now;
+        }
+
+        if (this.activeSpeaker != null && !levels.hasOwnProperty(this.activeSpeaker)) {
+            // They left the call
+            this.SetActiveSpeaker(loudest);
+        }
+        else if (loudest == null) {
+            this.candidate = null;
+            if (now - this.lastSpokeAt > ActiveSpeakerDetector.SilenceTime) {
+                this.SetActiveSpeaker(null);
+            }
+        }
+        else if (this.activeSpeaker == null) {
+            this.SetActiveSpeaker(loudest);
+        }
+        else if (loudest != this.activeSpeaker && levels[loudest] > levels[this.activeSpeaker] + ActiveSpeakerDetector.SwitchMargin) {
+            if (this.candidate != loudest) {
+                this.candidate = loudest;
+                this.candidateSince = now;
+            }
+            else if (now - this.candidateSince >= ActiveSpeakerDetector.SwitchTime) {
+                this.SetActiveSpeaker(loudest);
+            }
+        }
+        else {
+            this.candidate = null;
+        }
+
+        if (this.OnAudioLevels != null) {
+            this.OnAudioLevels(levels);
+        }
+    }
+
+    private SetActiveSpeaker(clientId: string): void {
+        this.candidate = null;
+
+        if (this.activeSpeaker == clientId) {
+            return;
+        }
+
+        this.activeSpeaker = clientId;
+        if (this.OnActiveSpeakerChanged != null) {
+            this.OnActiveSpeakerChanged(clientId);
+        }
+    }
+
+    private static NormaliseLevel(decibels: number): number {
+        return Math.max(0, Math.min(1, 1 - decibels / ActiveSpeakerDetector.LevelFloor));
+    }
+}
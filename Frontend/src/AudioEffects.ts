@@ -0,0 +1,359 @@
+import { IUserMediaSettings, IUserMediaSetting, UserMediaSetting, UserMediaSettingsRange } from "./UserMedia";
+import { SettingAddon } from "./SettingsSchema";
+import { NoiseSuppressorEffect } from "./NoiseSuppressor";
+
+// A stage which processes our microphone before it is sent
+export interface IAudioEffect {
+    // The boolean setting which switches the stage on, it is bypassed while this is off
+    readonly EnabledKey: string;
+    // Added to the user media settings, keyed the same way
+    CreateSettings(): { [key: string]: IUserMediaSetting; };
+    // Returns the first and last nodes, which the audio goes in and out of. Called
+    // again each time the chain is rebuilt, replacing the nodes from last time.
+    CreateNodes(context: BaseAudioContext): AudioNode[];
+    SetParameters(settings: IUserMediaSettings): void;
+}
+
+class EffectStage {
+    public Effect: IAudioEffect;
+    public Input: GainNode;
+    public Output: GainNode;
+    public First: AudioNode;
+    public IsBypassed: boolean;
+}
+
+// Runs the effects in order. Each stage sits between a pair of gain nodes, so
+// it can be bypassed by connecting them together without rebuilding the graph.
+export class AudioEffectChain {
+    private readonly effects: IAudioEffect[];
+    private stages: EffectStage[] = [];
+
+    constructor(effects: IAudioEffect[]) {
+        this.effects = effects;
+    }
+
+    // In the order they process audio, with the existing compressor in the middle
+    public static CreateEffects(): IAudioEffect[] {
+        return [new HighPassEffect(), new NoiseSuppressorEffect(), new EqualiserEffect(), new DeEsserEffect(), new CompressorEffect(), new LimiterEffect(), new StereoWidthEffect()];
+    }
+
+    // Returns the node the processed audio comes out of
+    public Build(context: BaseAudioContext, input: AudioNode, settings: IUserMediaSettings): AudioNode {
+        // Cut the old stages off so they can be garbage collected
+        this.stages.forEach(stage => {
+            stage.Input.disconnect();
+            stage.Output.disconnect();
+        });
+
+        let lastNode: AudioNode = input;
+
+        this.stages = this.effects.map(effect => {
+            const nodes: AudioNode[] = effect.CreateNodes(context);
+
+            const stage: EffectStage = new EffectStage();
+            stage.Effect = effect;
+            stage.Input = context.createGain();
+            stage.Output = context.createGain();
+            stage.First = nodes[0];
+            nodes[nodes.length - 1].connect(stage.Output);
+
+            lastNode.connect(stage.Input);
+            lastNode = stage.Output;
+            return stage;
+        });
+
+        this.SetSettings(settings);
+        return lastNode;
+    }
+
+    public SetSettings(settings: IUserMediaSettings): void {
+        this.stages.forEach(stage => {
+            stage.Effect.SetParameters(settings);
+
+            const isBypassed: boolean = !settings[stage.Effect.EnabledKey].Value;
+            if (stage.IsBypassed === isBypassed) {
+                return;
+            }
+
+            stage.IsBypassed = isBypassed;
+            stage.Input.disconnect();
+            stage.Input.connect(isBypassed ? stage.Output : stage.First);
+        });
+    }
+}
+
+class HighPassEffect implements IAudioEffect {
+    private filter: BiquadFilterNode;
+
+    public readonly EnabledKey: string = "AudioHighPass";
+
+    public CreateSettings(): { [key: string]: IUserMediaSetting; } {
+        return {
+            AudioHighPass: new UserMediaSetting<boolean>(false, "Enable Rumble Filter", "Cuts out low rumbles, such as traffic, fans and knocks on the desk", "Audio Effects", false),
+            AudioHighPassFrequency: new UserMediaSettingsRange(20, 300, 10, 80, "Rumble Filter Frequency", "Sounds below this frequency, in Hz, are cut out", "Audio Effects", false).WithDependency("AudioHighPass")
+        };
+    }
+
+    public CreateNodes(context: BaseAudioContext): AudioNode[] {
+        this.filter = context.createBiquadFilter();
+        this.filter.type = "highpass";
+        this.filter.Q.value = Math.SQRT1_2;
+        return [this.filter];
+    }
+
+    public SetParameters(settings: IUserMediaSettings): void {
+        this.filter.frequency.value = Number(settings.AudioHighPassFrequency.Value);
+    }
+}
+
+class EqualiserBand {
+    public Type: BiquadFilterType;
+    public Frequency: number;
+    public MinFrequency: number;
+    public MaxFrequency: number;
+    public FrequencyStep: number;
+    // Shelves don't have a width
+    public HasQ: boolean;
+}
+
+export class EqualiserEffect implements IAudioEffect {
+    private filters: BiquadFilterNode[] = [];
+
+    private static readonly Bands: EqualiserBand[] = [
+        { Type: "lowshelf", Frequency: 100, MinFrequency: 20, MaxFrequency: 500, FrequencyStep: 10, HasQ: false },
+        { Type: "peaking", Frequency: 400, MinFrequency: 100, MaxFrequency: 2000, FrequencyStep: 10, HasQ: true },
+        { Type: "peaking", Frequency: 2500, MinFrequency: 500, MaxFrequency: 8000, FrequencyStep: 50, HasQ: true },
+        { Type: "highshelf", Frequency: 8000, MinFrequency: 2000, MaxFrequency: 16000, FrequencyStep: 100, HasQ: false }
+    ];
+
+    public readonly EnabledKey: string = "AudioEqualiser";
+
+    public CreateSettings(): { [key: string]: IUserMediaSetting; } {
+        const settings: { [key: string]: IUserMediaSetting; } = {
+            AudioEqualiser: new UserMediaSetting<boolean>(false, "Enable Equaliser", "Boost or cut parts of your voice, for example to sound less boomy or more clear", "Audio Effects", false).WithAddon(SettingAddon.EqualiserCurve)
+        };
+
+        EqualiserEffect.Bands.forEach((band, index) => {
+            const prefix: string = "AudioEqualiserBand" + (index + 1);
+            const name: string = "EQ Band " + (index + 1) + " (" + band.Type + ")";
+
+            settings[prefix + "Frequency"] = new UserMediaSettingsRange(band.MinFrequency, band.MaxFrequency, band.FrequencyStep, band.Frequency, name + " Frequency", "The frequency, in Hz, this band boosts or cuts", "Audio Effects", false).WithDependency("AudioEqualiser");
+            settings[prefix + "Gain"] = new UserMediaSettingsRange(-12, 12, 0.5, 0, name + " Gain", "How much to boost or cut, in decibels", "Audio Effects", false).WithDependency("AudioEqualiser");
+            if (band.HasQ) {
+                settings[prefix + "Q"] = new UserMediaSettingsRange(0.1, 10, 0.1, 1, name + " Width", "Higher values affect a narrower range of frequencies", "Audio Effects", false).WithDependency("AudioEqualiser");
+            }
+        });
+
+        return settings;
+    }
+
+    public CreateNodes(context: BaseAudioContext): AudioNode[] {
+        this.filters = EqualiserEffect.Bands.map(() => context.createBiquadFilter());
+        for (let i = 1; i < this.filters.length; i++) {
+            this.filters[i - 1].connect(this.filters[i]);
+        }
+
+        return [this.filters[0], this.filters[this.filters.length - 1]];
+    }
+
+    public SetParameters(settings: IUserMediaSettings): void {
+        EqualiserEffect.ConfigureFilters(this.filters, settings);
+    }
+
+    // The overall response in decibels at each frequency, for drawing the curve
+    public static GetResponse(context: BaseAudioContext, settings: IUserMediaSettings, frequencies: Float32Array): Float32Array {
+        const filters: BiquadFilterNode[] = EqualiserEffect.Bands.map(() => context.createBiquadFilter());
+        EqualiserEffect.ConfigureFilters(filters, settings);
+
+        const response: Float32Array = new Float32Array(frequencies.length);
+        const magnitudes: Float32Array = new Float32Array(frequencies.length);
+        const phases: Float32Array = new Float32Array(frequencies.length);
+
+        filters.forEach(filter => {
+            filter.getFrequencyResponse(frequencies, magnitudes, phases);
+            magnitudes.forEach((magnitude, index) => response[index] += 20 * Math.log10(magnitude));
+        });
+
+        return response;
+    }
+
+    private static ConfigureFilters(filters: BiquadFilterNode[], settings: IUserMediaSettings): void {
+        EqualiserEffect.Bands.forEach((band, index) => {
+            const prefix: string = "AudioEqualiserBand" + (index + 1);
+            filters[index].type = band.Type;
+            filters[index].frequency.value = Number(settings[prefix + "Frequency"].Value);
+            filters[index].gain.value = Number(settings[prefix + "Gain"].Value);
+            if (band.HasQ) {
+                filters[index].Q.value = Number(settings[prefix + "Q"].Value);
+            }
+        });
+    }
+}
+
+// Splits off the highs and compresses only them, so harsh "s" sounds are
+// turned down without dulling the rest of the voice
+class DeEsserEffect implements IAudioEffect {
+    // Two Butterworth filters in a row on each side make a Linkwitz-Riley crossover,
+    // whose halves add back up to a flat response rather than leaving a notch
+    private static readonly CrossoverQ: number = Math.SQRT1_2;
+    private static readonly Ratio: number = 10;
+    // Browsers' compressors look ahead by this many seconds, so the lows are held back to match
+    private static readonly CompressorDelay: number = 0.006;
+
+    private lowPasses: BiquadFilterNode[];
+    private highPasses: BiquadFilterNode[];
+    private compressor: DynamicsCompressorNode;
+    private makeupCompensation: GainNode;
+
+    public readonly EnabledKey: string = "AudioDeEsser";
+
+    public CreateSettings(): { [key: string]: IUserMediaSetting; } {
+        return {
+            AudioDeEsser: new UserMediaSetting<boolean>(false, "Enable De-esser", "Softens harsh \"s\" and \"t\" sounds", "Audio Effects", false),
+            AudioDeEsserFrequency: new UserMediaSettingsRange(3000, 10000, 250, 6000, "De-esser Frequency", "Sounds above this frequency, in Hz, are turned down when they get loud", "Audio Effects", false).WithDependency("AudioDeEsser"),
+            AudioDeEsserThreshold: new UserMediaSettingsRange(-60, 0, 1, -30, "De-esser Threshold", "How loud, in decibels, the highs can get before they are turned down", "Audio Effects", false).WithDependency("AudioDeEsser")
+        };
+    }
+
+    public CreateNodes(context: BaseAudioContext): AudioNode[] {
+        const input: GainNode = context.createGain();
+        const output: GainNode = context.createGain();
+
+        this.lowPasses = [DeEsserEffect.CreateCrossoverFilter(context, "lowpass"), DeEsserEffect.CreateCrossoverFilter(context, "lowpass")];
+        this.highPasses = [DeEsserEffect.CreateCrossoverFilter(context, "highpass"), DeEsserEffect.CreateCrossoverFilter(context, "highpass")];
+
+        this.compressor = context.createDynamicsCompressor();
+        this.compressor.knee.value = 0;
+        this.compressor.ratio.value = DeEsserEffect.Ratio;
+        this.compressor.attack.value = 0.001;
+        this.compressor.release.value = 0.05;
+
+        this.makeupCompensation = context.createGain();
+
+        const lowDelay: DelayNode = context.createDelay(DeEsserEffect.CompressorDelay);
+        lowDelay.delayTime.value = DeEsserEffect.CompressorDelay;
+
+        input.connect(this.lowPasses[0]);
+        this.lowPasses[0].connect(this.lowPasses[1]);
+        this.lowPasses[1].connect(lowDelay);
+        lowDelay.connect(output);
+
+        input.connect(this.highPasses[0]);
+        this.highPasses[0].connect(this.highPasses[1]);
+        this.highPasses[1].connect(this.compressor);
+        this.compressor.connect(this.makeupCompensation);
+        this.makeupCompensation.connect(output);
+
+        return [input, output];
+    }
+
+    public SetParameters(settings: IUserMediaSettings): void {
+        const frequency: number = Number(settings.AudioDeEsserFrequency.Value);
+        this.lowPasses.concat(this.highPasses).forEach(filter => filter.frequency.value = frequency);
+
+        const threshold: number = Number(settings.AudioDeEsserThreshold.Value);
+        this.compressor.threshold.value = threshold;
+
+        // The compressor always adds makeup gain, which would leave the highs louder than they
+        // came in until they reach the threshold. It's worked out from what the compression
+        // curve does to a full scale signal, so it can be taken back off here
+        const makeupGain: number = -threshold * (1 - 1 / DeEsserEffect.Ratio) * 0.6;
+        this.makeupCompensation.gain.value = Math.pow(10, -makeupGain / 20);
+    }
+
+    private static CreateCrossoverFilter(context: BaseAudioContext, type: BiquadFilterType): BiquadFilterNode {
+        const filter: BiquadFilterNode = context.createBiquadFilter();
+        filter.type = type;
+        filter.Q.value = DeEsserEffect.CrossoverQ;
+        return filter;
+    }
+}
+
+// Its settings were around before effects were, so they're declared with the others
+class CompressorEffect implements IAudioEffect {
+    private compressor: DynamicsCompressorNode;
+
+    public readonly EnabledKey: string = "AudioCompressor";
+
+    public CreateSettings(): { [key: string]: IUserMediaSetting; } {
+        return {};
+    }
+
+    public CreateNodes(context: BaseAudioContext): AudioNode[] {
+        this.compressor = context.createDynamicsCompressor();
+        return [this.compressor];
+    }
+
+    public SetParameters(settings: IUserMediaSettings): void {
+        this.compressor.threshold.value = settings.AudioCompressorThreshold.Value;
+        this.compressor.knee.value = settings.AudioCompressorKnee.Value;
+        this.compressor.ratio.value = settings.AudioCompressorRatio.Value;
+        this.compressor.attack.value = settings.AudioCompressorAttack.Value;
+        this.compressor.release.value = settings.AudioCompressorRelease.Value;
+    }
+}
+
+// A compressor with the hardest settings the browser allows, to catch peaks
+class LimiterEffect implements IAudioEffect {
+    private limiter: DynamicsCompressorNode;
+
+    public readonly EnabledKey: string = "AudioLimiter";
+
+    public CreateSettings(): { [key: string]: IUserMediaSetting; } {
+        return {
+            AudioLimiter: new UserMediaSetting<boolean>(false, "Enable Limiter", "Stops sudden loud sounds, such as laughing or shouting, from distorting", "Audio Effects", false),
+            AudioLimiterThreshold: new UserMediaSettingsRange(-20, 0, 0.5, -1, "Limiter Ceiling", "The loudest, in decibels, your microphone is allowed to get", "Audio Effects", false).WithDependency("AudioLimiter")
+        };
+    }
+
+    public CreateNodes(context: BaseAudioContext): AudioNode[] {
+        this.limiter = context.createDynamicsCompressor();
+        this.limiter.knee.value = 0;
+        this.limiter.ratio.value = 20;
+        this.limiter.attack.value = 0;
+        this.limiter.release.value = 0.05;
+        return [this.limiter];
+    }
+
+    public SetParameters(settings: IUserMediaSettings): void {
+        this.limiter.threshold.value = Number(settings.AudioLimiterThreshold.Value);
+    }
+}
+
+// Mixes each side into the other to narrow the image, or subtracts it to widen it
+class StereoWidthEffect implements IAudioEffect {
+    private sameSideGains: GainNode[] = [];
+    private otherSideGains: GainNode[] = [];
+
+    public readonly EnabledKey: string = "AudioStereo";
+
+    public CreateSettings(): { [key: string]: IUserMediaSetting; } {
+        return {
+            AudioStereoWidth: new UserMediaSettingsRange(0, 2, 0.05, 1, "Stereo Width", "Below 1 narrows your stereo towards mono, above 1 widens it", "Audio Effects", false).WithDependency("AudioStereo")
+        };
+    }
+
+    public CreateNodes(context: BaseAudioContext): AudioNode[] {
+        const splitter: ChannelSplitterNode = context.createChannelSplitter(2);
+        const merger: ChannelMergerNode = context.createChannelMerger(2);
+
+        this.sameSideGains = [context.createGain(), context.createGain()];
+        this.otherSideGains = [context.createGain(), context.createGain()];
+
+        for (let channel = 0; channel < 2; channel++) {
+            splitter.connect(this.sameSideGains[channel], channel);
+            this.sameSideGains[channel].connect(merger, 0, channel);
+
+            splitter.connect(this.otherSideGains[channel], channel);
+            this.otherSideGains[channel].connect(merger, 0, 1 - channel);
+        }
+
+        return [splitter, merger];
+    }
+
+    public SetParameters(settings: IUserMediaSettings): void {
+        const width: number = Number(settings.AudioStereoWidth.Value);
+        this.sameSideGains.forEach(gain => gain.gain.value = (1 + width) / 2);
+        this.otherSideGains.forEach(gain => gain.gain.value = (1 - width) / 2);
+    }
+}
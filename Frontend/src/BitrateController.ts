@@ -0,0 +1,130 @@
+import { ConnectionManager } from "./ConnectionManager";
+import { VideoEncoding } from "./PeerConnector";
+import { PeerStatistics } from "./ConnectionStatistics";
+import { IUserMediaSettings } from "./UserMedia";
+
+// Decides how much video to send each peer. With automatic quality on, the
+// bitrate budget is shared between peers and backs off for any peer whose
+// connection is struggling, then creeps back up once it recovers.
+export class BitrateController {
+    private readonly connectionManager: ConnectionManager;
+    private isAdaptive: boolean = true;
+    private maxBitrate: number = 0;
+    private scaleResolutionDownBy: number = 1;
+    private degradationPreference: RTCDegradationPreference = "balanced";
+    private qualityFactors: { [clientId: string]: number; } = {};
+    private appliedEncodings: { [clientId: string]: VideoEncoding; } = {};
+
+    private static readonly MinBitrate: number = 100000;
+    private static readonly MinQualityFactor: number = 0.1;
+    private static readonly QualityDecreaseFactor: number = 0.7;
+    private static readonly QualityIncreaseStep: number = 0.05;
+    // Below this quality factor, sending fewer pixels looks better than a blocky picture
+    private static readonly ScaleDownQualityFactor: number = 0.5;
+    // Ignore small changes, since every change makes the encoder adjust
+    private static readonly MinBitrateChange: number = 0.1;
+
+    constructor(connectionManager: ConnectionManager) {
+        this.connectionManager = connectionManager;
+    }
+
+    public SetSettings(settings: IUserMediaSettings): void {
+        this.isAdaptive = settings.VideoAdaptiveQuality.Value;
+        this.maxBitrate = Number(settings.VideoMaxBitrate.Value) * 1000;
+        this.scaleResolutionDownBy = Number(settings.VideoScaleDown.Value);
+        this.degradationPreference = settings.VideoDegradationPreference.Value;
+
+        if (!this.isAdaptive) {
+            this.qualityFactors = {};
+        }
+
+        this.appliedEncodings = {};
+        this.connectionManager.GetClientIds().forEach(clientId => this.Apply(clientId));
+    }
+
+    public StatisticsUpdated(clientId: string, statistics: PeerStatistics): void {
+        const clientIds: string[] = this.connectionManager.GetClientIds();
+        for (let id in this.appliedEncodings) {
+            if (clientIds.indexOf(id) < 0) {
+                delete this.qualityFactors[id];
+                delete this.appliedEncodings[id];
+            }
+        }
+
+        if (this.isAdaptive) {
+            this.UpdateQualityFactor(clientId, statistics);
+        }
+
+        // The number of peers may have changed, even if this one is fine
+        this.Apply(clientId);
+    }
+
+    private UpdateQualityFactor(clientId: string, statistics: PeerStatistics): void {
+        let qualityFactor: number = this.qualityFactors.hasOwnProperty(clientId) ? this.qualityFactors[clientId] : 1;
+
+        const packetLoss: number = statistics.OutboundPacketLoss == null ? 0 : statistics.OutboundPacketLoss;
+        const roundTripTime: number = statistics.RoundTripTime == null ? 0 : statistics.RoundTripTime;
+
+        // The encoder reports "bandwidth" whenever it reaches the max bitrate we gave it,
+        // so that says nothing about the connection, but running out of CPU does
+        const isCpuLimited: boolean = statistics.QualityLimitationReason == "cpu";
+
+        const isCongested: boolean = packetLoss > 0.05 || roundTripTime > 0.4 || isCpuLimited;
+        const isHealthy: boolean = packetLoss < 0.02 && roundTripTime < 0.25 && !isCpuLimited;
+
+        if (isCongested) {
+            qualityFactor = Math.max(BitrateController.MinQualityFactor, qualityFactor * BitrateController.QualityDecreaseFactor);
+        }
+        else if (isHealthy) {
+            qualityFactor = Math.min(1, qualityFactor + BitrateController.QualityIncreaseStep);
+        }
+
+        this.qualityFactors[clientId] = qualityFactor;
+    }
+
+    private GetEncoding(clientId: string): VideoEncoding {
+        const encoding: VideoEncoding = new VideoEncoding();
+        encoding.MaxBitrate = this.maxBitrate;
+        encoding.ScaleResolutionDownBy = this.scaleResolutionDownBy;
+        encoding.DegradationPreference = this.degradationPreference;
+
+        if (!this.isAdaptive) {
+            return encoding;
+        }
+
+        // Every peer in the mesh is sent its own copy of our video
+        const peerCount: number = Math.max(1, this.connectionManager.GetClientIds().length);
+        const qualityFactor: number = this.qualityFactors.hasOwnProperty(clientId) ? this.qualityFactors[clientId] : 1;
+
+        encoding.MaxBitrate = Math.max(BitrateController.MinBitrate, this.maxBitrate / peerCount * qualityFactor);
+
+        if (qualityFactor < BitrateController.ScaleDownQualityFactor) {
+            encoding.ScaleResolutionDownBy *= 2;
+        }
+
+        return encoding;
+    }
+
+    private Apply(clientId: string): void {
+        const encoding: VideoEncoding = this.GetEncoding(clientId);
+
+        if (this.appliedEncodings.hasOwnProperty(clientId) && !BitrateController.HasChanged(this.appliedEncodings[clientId], encoding)) {
+            return;
+        }
+
+        this.appliedEncodings[clientId] = encoding;
+        this.connectionManager.SetVideoEncoding(clientId, encoding);
+    }
+
+    private static HasChanged(previous: VideoEncoding, next: VideoEncoding): boolean {
+        if (previous.ScaleResolutionDownBy != next.ScaleResolutionDownBy || previous.DegradationPreference != next.DegradationPreference) {
+            return true;
+        }
+
+        if (previous.MaxBitrate == 0 || next.MaxBitrate == 0) {
+            return previous.MaxBitrate != next.MaxBitrate;
+        }
+
+        return Math.abs(next.MaxBitrate - previous.MaxBitrate) / previous.MaxBitrate > BitrateController.MinBitrateChange;
+    }
+}
@@ -0,0 +1,55 @@
+import { ISessionConfig } from "./SessionConfig";
+import { IBroker, OnMessageDelegate, OnStateChangedDelegate, BrokerState } from "./Broker";
+import { SignallingProtocol, Envelope, ISignallingPayloads, SignallingMessageType, LocalCapabilities } from "./SignallingProtocol";
+
+// Signals between tabs of the same browser, useful for testing without a backend
+export class BroadcastChannelBroker implements IBroker {
+    private channel: BroadcastChannel;
+
+    public OnMessage: OnMessageDelegate;
+    public OnStateChanged: OnStateChangedDelegate;
+    private readonly sessionConfig: ISessionConfig;
+
+    public constructor(sessionConfig: ISessionConfig) {
+        this.sessionConfig = sessionConfig;
+    }
+
+    public async Open(): Promise<void> {
+        this.channel = new BroadcastChannel("ae-chat-" + this.sessionConfig.RoomId);
+        this.channel.onmessage = (event: MessageEvent) => this.OnMessageInternal(event.data);
+        this.OnStateChanged(BrokerState.Connected);
+        this.Send({ sessionId: this.sessionConfig.SessionId, capabilities: LocalCapabilities }, "discover", this.sessionConfig.RoomId);
+    }
+
+    public Close(): void {
+        if (this.channel != null) {
+            this.channel.close();
+            this.channel = null;
+            this.OnStateChanged(BrokerState.Closed);
+        }
+    }
+
+    private OnMessageInternal(serialized: string): void {
+        const envelope: Envelope = SignallingProtocol.Deserialize(serialized);
+        if (envelope == null) {
+            return;
+        }
+
+        // Every tab in the room hears everything, so behave like the server
+        // and only surface room broadcasts and messages addressed to us
+        if (envelope.ToId != this.sessionConfig.RoomId && envelope.ToId != this.sessionConfig.AttendeeId) {
+            return;
+        }
+
+        this.OnMessage(envelope);
+    }
+
+    public Send<T extends SignallingMessageType>(payload: ISignallingPayloads[T], type: T, toId: string): void {
+        if (this.channel == null) {
+            console.warn("Dropping " + type + " message as the broker is closed");
+            return;
+        }
+
+        this.channel.postMessage(SignallingProtocol.Serialize(this.sessionConfig, payload, type, toId));
+    }
+}
@@ -1,61 +1,199 @@
 import { ISessionConfig } from "./SessionConfig";
+import { SignallingProtocol, Envelope, ISignallingPayloads, SignallingMessageType, LocalCapabilities } from "./SignallingProtocol";
 
 export interface IBroker {
     Open(): Promise<void>
-    Send(payload: any, type: string, connectionId: string): void
+    Close(): void
+    Send<T extends SignallingMessageType>(payload: ISignallingPayloads[T], type: T, connectionId: string): void
     OnMessage: OnMessageDelegate;
+    OnStateChanged: OnStateChangedDelegate;
 }
 
-export class Envelope {
-    public RoomId: string;
-    public FromId: string;
-    public Type: string;
-    public Data: any;
+export enum BrokerState {
+    Connecting = "connecting",
+    Connected = "connected",
+    Reconnecting = "reconnecting",
+    Failed = "failed",
+    Closed = "closed"
 }
 
-interface OnMessageDelegate {
+export interface OnMessageDelegate {
     (message: Envelope): void;
 }
 
+export interface OnStateChangedDelegate {
+    (state: BrokerState): void;
+}
+
+interface PendingOpen {
+    resolve: () => void;
+    reject: (reason: Error) => void;
+}
+
 export class Broker implements IBroker {
     private socket: WebSocket;
+    private state: BrokerState = BrokerState.Closed;
+    private pendingOpen: PendingOpen;
+    private reconnectAttempts: number = 0;
+    private reconnectTimeout: number = null;
+    private queue: string[] = [];
+
+    private static readonly MaxQueueLength: number = 100;
+    private static readonly MaxReconnectAttempts: number = 10;
+    private static readonly ReconnectBaseDelay: number = 500;
+    private static readonly ReconnectMaxDelay: number = 30000;
 
     public OnMessage: OnMessageDelegate;
+    public OnStateChanged: OnStateChangedDelegate;
     private readonly sessionConfig: ISessionConfig;
+    private readonly retryNow = () => this.RetryNow();
 
     public constructor(sessionConfig: ISessionConfig) {
         this.sessionConfig = sessionConfig;
     }
 
-    public async Open(): Promise<void> {
-        this.socket = new WebSocket("wss://c4x3tpp039.execute-api.eu-west-1.amazonaws.com/default");
-        this.socket.onmessage = (event: MessageEvent) => this.OnMessageInternal(event);
-        this.socket.onerror = (event: ErrorEvent) => console.error(event);
-        this.socket.onclose = () => this.Open();
-        return new Promise(resolve => this.socket.onopen = () => {
-            this.Send(this.sessionConfig.SessionId, "discover", this.sessionConfig.RoomId);
-            resolve();
+    public Open(): Promise<void> {
+        this.Disconnect("The broker was re-opened before it connected");
+        this.reconnectAttempts = 0;
+        this.SetState(BrokerState.Connecting);
+
+        // There's no point waiting out the backoff once the network or the tab is back
+        window.addEventListener("online", this.retryNow);
+        document.addEventListener("visibilitychange", this.retryNow);
+
+        return new Promise((resolve, reject) => {
+            this.pendingOpen = { resolve: resolve, reject: reject };
+            this.Connect();
         });
     }
 
+    public Close(): void {
+        this.Disconnect("The broker was closed before it connected");
+        window.removeEventListener("online", this.retryNow);
+        document.removeEventListener("visibilitychange", this.retryNow);
+        this.queue = [];
+        this.SetState(BrokerState.Closed);
+    }
+
+    private Disconnect(reason: string): void {
+        clearTimeout(this.reconnectTimeout);
+        this.reconnectTimeout = null;
+
+        if (this.socket != null) {
+            this.socket.close();
+            this.socket = null;
+        }
+
+        if (this.pendingOpen != null) {
+            this.pendingOpen.reject(new Error(reason));
+            this.pendingOpen = null;
+        }
+    }
+
+    private SetState(state: BrokerState): void {
+        if (this.state == state) {
+            return;
+        }
+
+        this.state = state;
+        this.OnStateChanged(state);
+    }
+
+    private Connect(): void {
+        const socket: WebSocket = new WebSocket(this.sessionConfig.SignallingUrl);
+        this.socket = socket;
+
+        socket.onmessage = (event: MessageEvent) => this.OnMessageInternal(event);
+        socket.onerror = (event: Event) => console.error(event);
+        socket.onopen = () => {
+            this.reconnectAttempts = 0;
+            this.SetState(BrokerState.Connected);
+
+            // Announce ourselves before anything else so that peers
+            // who lost track of us while we were away re-discover us
+            socket.send(SignallingProtocol.Serialize(this.sessionConfig, { sessionId: this.sessionConfig.SessionId, capabilities: LocalCapabilities }, "discover", this.sessionConfig.RoomId));
+            this.FlushQueue();
+
+            if (this.pendingOpen != null) {
+                this.pendingOpen.resolve();
+                this.pendingOpen = null;
+            }
+        };
+        socket.onclose = () => {
+            // Ignore sockets we have since replaced or deliberately closed
+            if (this.socket === socket) {
+                this.ScheduleReconnect();
+            }
+        };
+    }
+
+    private ScheduleReconnect(): void {
+        this.socket = null;
+
+        // Report failure after a while, but carry on trying at the slowest rate
+        // in case the server or network comes back, rather than giving up for good
+        if (this.reconnectAttempts == Broker.MaxReconnectAttempts) {
+            console.error("Unable to connect to " + this.sessionConfig.SignallingUrl + " after " + this.reconnectAttempts + " attempts, still trying");
+            this.SetState(BrokerState.Failed);
+
+            if (this.pendingOpen != null) {
+                this.pendingOpen.reject(new Error("Unable to connect to " + this.sessionConfig.SignallingUrl));
+                this.pendingOpen = null;
+            }
+        }
+        else if (this.state != BrokerState.Failed) {
+            this.SetState(this.pendingOpen != null ? BrokerState.Connecting : BrokerState.Reconnecting);
+        }
+
+        // Exponential backoff, with up to half of the delay randomised so
+        // that a room full of clients don't all reconnect at the same time
+        const delay: number = Math.min(Broker.ReconnectMaxDelay, Broker.ReconnectBaseDelay * Math.pow(2, this.reconnectAttempts));
+        const jitteredDelay: number = delay / 2 + Math.random() * delay / 2;
+        this.reconnectAttempts++;
+
+        console.warn("Signalling connection lost, reconnecting in " + Math.round(jitteredDelay) + "ms (attempt " + this.reconnectAttempts + ")");
+        this.reconnectTimeout = window.setTimeout(() => {
+            this.reconnectTimeout = null;
+            this.Connect();
+        }, jitteredDelay);
+    }
+
+    // Skips the rest of the backoff, if there is one
+    private RetryNow(): void {
+        if (this.reconnectTimeout == null || document.visibilityState == "hidden") {
+            return;
+        }
+
+        clearTimeout(this.reconnectTimeout);
+        this.reconnectTimeout = null;
+        this.Connect();
+    }
+
+    private FlushQueue(): void {
+        const queue: string[] = this.queue;
+        this.queue = [];
+        queue.forEach(serialized => this.socket.send(serialized));
+    }
+
     private OnMessageInternal(event: MessageEvent): void {
-        const data: any = JSON.parse(event.data);
-        const envelope: Envelope = new Envelope();
-        envelope.Data = JSON.parse(data["data"]);
-        envelope.RoomId = data["roomId"];
-        envelope.Type = data["type"];
-        envelope.FromId = data["fromId"];
-        this.OnMessage(envelope);
-    }
-
-    public Send(payload: any, type: string, toId: string): void {
-        const serialized: string = JSON.stringify({
-            roomId: this.sessionConfig.RoomId,
-            toId: toId,
-            fromId: this.sessionConfig.AttendeeId,
-            type: type,
-            data: JSON.stringify(payload)
-        });
-        this.socket.send(serialized);
+        const envelope: Envelope = SignallingProtocol.Deserialize(event.data);
+        if (envelope != null) {
+            this.OnMessage(envelope);
+        }
     }
-}
\ No newline at end of file
+
+    public Send<T extends SignallingMessageType>(payload: ISignallingPayloads[T], type: T, toId: string): void {
+        const serialized: string = SignallingProtocol.Serialize(this.sessionConfig, payload, type, toId);
+
+        if (this.socket != null && this.socket.readyState == WebSocket.OPEN) {
+            this.socket.send(serialized);
+            return;
+        }
+
+        this.queue.push(serialized);
+        if (this.queue.length > Broker.MaxQueueLength) {
+            console.warn("Signalling queue is full, dropping the oldest message");
+            this.queue.shift();
+        }
+    }
+}
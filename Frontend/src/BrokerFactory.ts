@@ -0,0 +1,36 @@
+import { IBroker, Broker } from "./Broker";
+import { BroadcastChannelBroker } from "./BroadcastChannelBroker";
+import { MemoryBroker } from "./MemoryBroker";
+import { ISessionConfig } from "./SessionConfig";
+
+export interface IBrokerFactory {
+    CreateBroker(sessionConfig: ISessionConfig): IBroker;
+}
+
+interface BrokerConstructorDelegate {
+    (sessionConfig: ISessionConfig): IBroker;
+}
+
+export class BrokerFactory implements IBrokerFactory {
+    private readonly brokers: { [brokerType: string]: BrokerConstructorDelegate; } = {};
+
+    public constructor() {
+        this.Register("websocket", sessionConfig => new Broker(sessionConfig));
+        this.Register("broadcastchannel", sessionConfig => new BroadcastChannelBroker(sessionConfig));
+        this.Register("memory", sessionConfig => new MemoryBroker(sessionConfig));
+    }
+
+    public Register(brokerType: string, constructor: BrokerConstructorDelegate): void {
+        this.brokers[brokerType.toLowerCase()] = constructor;
+    }
+
+    public CreateBroker(sessionConfig: ISessionConfig): IBroker {
+        const brokerType: string = sessionConfig.BrokerType.toLowerCase();
+        if (!this.brokers.hasOwnProperty(brokerType)) {
+            throw new Error("Unknown broker type " + sessionConfig.BrokerType + ", expected one of " + Object.keys(this.brokers).join(", "));
+        }
+
+        console.log("Creating " + brokerType + " broker");
+        return this.brokers[brokerType](sessionConfig);
+    }
+}
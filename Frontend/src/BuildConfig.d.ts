@@ -0,0 +1,6 @@
+// Replaced at build time by webpack's DefinePlugin, see webpack.config.js
+declare const SIGNALLING_URL: string;
+declare const SIGNALLING_BROKER: string;
+declare const ICE_SERVERS: string;
+declare const ICE_TRANSPORT_POLICY: string;
+declare const TURN_CREDENTIALS_URL: string;
@@ -0,0 +1,205 @@
+export enum RecordingState {
+    Inactive = "inactive",
+    Recording = "recording",
+    Paused = "paused"
+}
+
+export class Recording {
+    public Name: string;
+    public File: Blob;
+}
+
+interface OnNeedVideoElementsDelegate {
+    (): HTMLVideoElement[];
+}
+
+interface OnStateChangedDelegate {
+    (state: RecordingState): void;
+}
+
+interface OnRecordingsAvailableDelegate {
+    (recordings: Recording[]): void;
+}
+
+class Track {
+    public Name: string;
+    // MediaRecorder is newer than the DOM typings
+    public Recorder: any;
+    public Chunks: Blob[] = [];
+}
+
+// Records the call in the browser. The videos are drawn side by side onto a
+// canvas and recorded along with a mix of everyone's audio, and optionally
+// each attendee is also recorded on their own for editing afterwards.
+export class CallRecorder {
+    private canvas: HTMLCanvasElement;
+    private drawInterval: number;
+    private tracks: Track[] = [];
+    private state: RecordingState = RecordingState.Inactive;
+
+    private static readonly FrameRate: number = 25;
+    private static readonly Width: number = 1280;
+    private static readonly Height: number = 720;
+    // Recorders hand over what they have every so often, rather than all at the end
+    private static readonly ChunkPeriod: number = 1000;
+
+    public OnNeedVideoElements: OnNeedVideoElementsDelegate;
+    public OnStateChanged: OnStateChangedDelegate;
+    public OnRecordingsAvailable: OnRecordingsAvailableDelegate;
+
+    public static IsSupported(): boolean {
+        const windowDictionary = window as { [key: string]: any };
+        const canvasPrototype = HTMLCanvasElement.prototype as { [key: string]: any };
+        return typeof windowDictionary['MediaRecorder'] === "function" && typeof canvasPrototype['captureStream'] === "function";
+    }
+
+    public GetState(): RecordingState {
+        return this.state;
+    }
+
+    // Separate streams are keyed by the name of the file they are saved as
+    public Start(mixedAudio: MediaStream, separateStreams: { [name: string]: MediaStream; }): void {
+        if (this.state != RecordingState.Inactive) {
+            return;
+        }
+
+        this.canvas = document.createElement("canvas");
+        this.canvas.width = CallRecorder.Width;
+        this.canvas.height = CallRecorder.Height;
+        this.DrawFrame();
+
+        try {
+            const canvasStream: MediaStream = (this.canvas as { [key: string]: any })['captureStream'](CallRecorder.FrameRate);
+            const mixedStream: MediaStream = new MediaStream(canvasStream.getVideoTracks().concat(mixedAudio.getAudioTracks()));
+
+            this.tracks = [this.CreateTrack("Call", mixedStream)];
+            for (let name in separateStreams) {
+                if (separateStreams[name].getTracks().length > 0) {
+                    this.tracks.push(this.CreateTrack(name, separateStreams[name]));
+                }
+            }
+
+            this.tracks.forEach(track => track.Recorder.start(CallRecorder.ChunkPeriod));
+        }
+        catch (err) {
+            // Leave nothing recording, so starting again begins from scratch
+            this.tracks.filter(track => track.Recorder.state != "inactive").forEach(track => track.Recorder.stop());
+            this.tracks = [];
+            this.canvas = null;
+            throw err;
+        }
+
+        // Unlike animation frames, timers don't stop in background tabs. They are throttled
+        // to about once a second though, so the video stutters while the tab is hidden.
+        this.drawInterval = window.setInterval(() => this.DrawFrame(), 1000 / CallRecorder.FrameRate);
+        this.SetState(RecordingState.Recording);
+    }
+
+    public Pause(): void {
+        if (this.state != RecordingState.Recording) {
+            return;
+        }
+
+        this.tracks.forEach(track => track.Recorder.pause());
+        this.SetState(RecordingState.Paused);
+    }
+
+    public Resume(): void {
+        if (this.state != RecordingState.Paused) {
+            return;
+        }
+
+        this.tracks.forEach(track => track.Recorder.resume());
+        this.SetState(RecordingState.Recording);
+    }
+
+    public async Stop(): Promise<void> {
+        if (this.state == RecordingState.Inactive) {
+            return;
+        }
+
+        clearInterval(this.drawInterval);
+
+        const tracks: Track[] = this.tracks;
+        this.tracks = [];
+        this.SetState(RecordingState.Inactive);
+
+        // The last chunk arrives just before the recorder says it has stopped
+        await Promise.all(tracks.map(track => new Promise(resolve => {
+            // Recorders which stopped on their own, such as when a track ended, won't say so again
+            if (track.Recorder.state == "inactive") {
+                resolve();
+                return;
+            }
+
+            track.Recorder.onstop = resolve;
+            track.Recorder.stop();
+        })));
+
+        const timestamp: string = new Date().toISOString().replace(/[:.]/g, "-");
+        const recordings: Recording[] = tracks.map(track => {
+            const recording: Recording = new Recording();
+            recording.Name = track.Name + " " + timestamp + ".webm";
+            recording.File = new Blob(track.Chunks, { type: track.Recorder.mimeType || "video/webm" });
+            return recording;
+        });
+
+        if (this.OnRecordingsAvailable != null) {
+            this.OnRecordingsAvailable(recordings);
+        }
+    }
+
+    private CreateTrack(name: string, stream: MediaStream): Track {
+        const windowDictionary = window as { [key: string]: any };
+        const mediaRecorder = windowDictionary['MediaRecorder'];
+
+        const hasVideo: boolean = stream.getVideoTracks().length > 0;
+        const mimeTypes: string[] = hasVideo ? ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"] : ["audio/webm;codecs=opus", "audio/webm"];
+        const mimeType: string = mimeTypes.find(type => mediaRecorder.isTypeSupported(type));
+
+        const track: Track = new Track();
+        track.Name = name;
+        track.Recorder = new mediaRecorder(stream, mimeType == null ? {} : { mimeType: mimeType });
+        track.Recorder.ondataavailable = (event: { data: Blob }) => {
+            if (event.data.size > 0) {
+                track.Chunks.push(event.data);
+            }
+        };
+        track.Recorder.onerror = (event: { error: Error }) => console.error("Recording " + name + " failed: " + event.error);
+        return track;
+    }
+
+    private DrawFrame(): void {
+        const context: CanvasRenderingContext2D = this.canvas.getContext("2d");
+        context.fillStyle = "black";
+        context.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        const videos: HTMLVideoElement[] = (this.OnNeedVideoElements == null ? [] : this.OnNeedVideoElements())
+            .filter(video => video.videoWidth > 0 && video.videoHeight > 0);
+        if (videos.length == 0) {
+            return;
+        }
+
+        const columnCount: number = Math.ceil(Math.sqrt(videos.length));
+        const rowCount: number = Math.ceil(videos.length / columnCount);
+        const cellWidth: number = this.canvas.width / columnCount;
+        const cellHeight: number = this.canvas.height / rowCount;
+
+        videos.forEach((video, index) => {
+            // Fit each video inside its cell without stretching it
+            const scale: number = Math.min(cellWidth / video.videoWidth, cellHeight / video.videoHeight);
+            const width: number = video.videoWidth * scale;
+            const height: number = video.videoHeight * scale;
+            const x: number = (index % columnCount) * cellWidth + (cellWidth - width) / 2;
+            const y: number = Math.floor(index / columnCount) * cellHeight + (cellHeight - height) / 2;
+            context.drawImage(video, x, y, width, height);
+        });
+    }
+
+    private SetState(state: RecordingState): void {
+        this.state = state;
+        if (this.OnStateChanged != null) {
+            this.OnStateChanged(state);
+        }
+    }
+}
@@ -1,9 +1,20 @@
-import { IUserMedia } from "./UserMedia";
-import { Broker, IBroker } from "./Broker";
+import { IUserMedia, IUserMediaSettings } from "./UserMedia";
+import { IBroker, BrokerState } from "./Broker";
+import { IBrokerFactory, BrokerFactory } from "./BrokerFactory";
 import { ConnectionManager, ClientLocation } from "./ConnectionManager";
 import { ISessionConfig } from "./SessionConfig"
 import { PeerConnectorFactory } from "./PeerConnectorFactory";
+import { IIceServerProvider, IceServerProvider } from "./IceServerProvider";
 import { ConnectionChange } from "./PeerConnector";
+import { ChatMessage } from "./ChatMessage";
+import { FileTransfer, FileTransferManager } from "./FileTransfer";
+import { Capability } from "./SignallingProtocol";
+import { PeerStatistics, StatisticsCollector } from "./ConnectionStatistics";
+import { BitrateController } from "./BitrateController";
+import { CodecPreferences } from "./CodecPreferences";
+import { ActiveSpeakerDetector } from "./ActiveSpeaker";
+import { CallRecorder, Recording, RecordingState } from "./CallRecorder";
+import { Profile, ProfileStore } from "./Profile";
 
 interface OnConnectionChangedDelegate {
     (connectionId: string, change: ConnectionChange): void;
@@ -25,6 +36,58 @@ interface OnClientLocation {
     (clientId: string, location: ClientLocation): void;
 }
 
+interface OnChatMessageDelegate {
+    (message: ChatMessage): void;
+}
+
+interface OnChatMessageDeliveredDelegate {
+    (clientId: string, messageId: string): void;
+}
+
+interface OnFileTransferChangedDelegate {
+    (transfer: FileTransfer): void;
+}
+
+interface OnFileReceivedDelegate {
+    (transfer: FileTransfer, file: Blob): void;
+}
+
+interface OnSignallingStateChangedDelegate {
+    (state: BrokerState): void;
+}
+
+interface OnStatisticsDelegate {
+    (clientId: string, statistics: PeerStatistics): void;
+}
+
+interface OnActiveSpeakerChangedDelegate {
+    (clientId: string): void;
+}
+
+interface OnAudioLevelsDelegate {
+    (levels: { [clientId: string]: number; }): void;
+}
+
+interface OnNeedVideoElementsDelegate {
+    (): HTMLVideoElement[];
+}
+
+interface OnRecordingStateChangedDelegate {
+    (state: RecordingState): void;
+}
+
+interface OnRecordingsAvailableDelegate {
+    (recordings: Recording[]): void;
+}
+
+interface OnRemoteRecordingChangedDelegate {
+    (clientId: string, isRecording: boolean): void;
+}
+
+interface OnProfileChangedDelegate {
+    (clientId: string, profile: Profile): void;
+}
+
 export class ChatApp {
     private readonly sessionConfig: ISessionConfig;
 
@@ -36,12 +99,179 @@ export class ChatApp {
     private readonly userMedia: IUserMedia;
     private localStream: MediaStream;
     private connectionManager: ConnectionManager;
+    private fileTransferManager: FileTransferManager;
+    private statisticsCollector: StatisticsCollector;
+    private bitrateController: BitrateController;
+    private activeSpeakerDetector: ActiveSpeakerDetector;
+    private readonly recorder: CallRecorder = new CallRecorder();
+    private remoteStreams: { [clientId: string]: MediaStream; } = {};
+    private profile: Profile = ProfileStore.Load();
+    private remoteProfiles: { [clientId: string]: Profile; } = {};
 
     public OnLocalStream: OnLocalStreamDelegate;
     public OnRemoteStream: OnRemoteStreamDelegate;
     public OnConnectionChanged: OnConnectionChangedDelegate;
     public OnMessage: OnMessage;
     public OnLocation: OnClientLocation;
+    public OnChatMessage: OnChatMessageDelegate;
+    public OnChatMessageDelivered: OnChatMessageDeliveredDelegate;
+    public OnFileTransferChanged: OnFileTransferChangedDelegate;
+    public OnFileReceived: OnFileReceivedDelegate;
+    public OnSignallingStateChanged: OnSignallingStateChangedDelegate;
+    public OnStatistics: OnStatisticsDelegate;
+    // Null when nobody has spoken for a while
+    public OnActiveSpeakerChanged: OnActiveSpeakerChangedDelegate;
+    // From 0 to 1 for each attendee, smoothed
+    public OnAudioLevels: OnAudioLevelsDelegate;
+    // The videos to draw into a recording, in order
+    public OnNeedVideoElements: OnNeedVideoElementsDelegate;
+    public OnRecordingStateChanged: OnRecordingStateChangedDelegate;
+    public OnRecordingsAvailable: OnRecordingsAvailableDelegate;
+    public OnRemoteRecordingChanged: OnRemoteRecordingChangedDelegate;
+    public OnProfileChanged: OnProfileChangedDelegate;
+
+    public SendChatMessage(text: string): ChatMessage {
+        if (this.connectionManager == null) {
+            return null;
+        }
+
+        return this.connectionManager.SendChatMessage(text);
+    }
+
+    public async SendFile(file: File, clientId?: string): Promise<FileTransfer[]> {
+        if (this.fileTransferManager == null) {
+            return [];
+        }
+
+        // Without a specific recipient, send to everyone who can receive files
+        const clientIds: string[] = (clientId == null ? this.connectionManager.GetClientIds() : [clientId])
+            .filter(id => this.connectionManager.HasCapability(id, Capability.FileTransfer));
+
+        if (clientIds.length == 0) {
+            this.OnMessage("Nobody in the call is able to receive files.", "info");
+            return [];
+        }
+
+        return await this.fileTransferManager.SendFile(file, clientIds);
+    }
+
+    public Leave(): void {
+        if (this.connectionManager != null) {
+            this.connectionManager.Leave();
+        }
+    }
+
+    public CancelFileTransfer(transferId: string): void {
+        if (this.fileTransferManager != null) {
+            this.fileTransferManager.CancelTransfer(transferId);
+        }
+    }
+
+    // The most recent samples for a client, oldest first
+    public GetStatisticsHistory(clientId: string): PeerStatistics[] {
+        if (this.statisticsCollector == null) {
+            return [];
+        }
+
+        return this.statisticsCollector.GetHistory(clientId);
+    }
+
+    public GetStatistics(clientId: string): PeerStatistics {
+        if (this.statisticsCollector == null) {
+            return null;
+        }
+
+        return this.statisticsCollector.GetLatest(clientId);
+    }
+
+    public GetActiveSpeaker(): string {
+        if (this.activeSpeakerDetector == null) {
+            return null;
+        }
+
+        return this.activeSpeakerDetector.GetActiveSpeaker();
+    }
+
+    public GetProfile(): Profile {
+        return JSON.parse(JSON.stringify(this.profile));
+    }
+
+    // Saved for next time, and sent to everyone straight away
+    public SetProfile(profile: Profile): void {
+        this.profile = ProfileStore.Normalise(profile);
+        ProfileStore.Save(this.profile);
+
+        if (this.connectionManager != null) {
+            this.connectionManager.SetProfile(this.profile);
+        }
+    }
+
+    // Null until the attendee has sent their profile
+    public GetRemoteProfile(clientId: string): Profile {
+        return this.remoteProfiles.hasOwnProperty(clientId) ? this.remoteProfiles[clientId] : null;
+    }
+
+    public CanRecord(): boolean {
+        return CallRecorder.IsSupported();
+    }
+
+    // With separate tracks, everyone is also recorded to a file of their own
+    public StartRecording(separateTracks: boolean): void {
+        if (this.connectionManager == null) {
+            return;
+        }
+
+        const separateStreams: { [name: string]: MediaStream; } = {};
+        if (separateTracks) {
+            if (this.localStream != null) {
+                separateStreams["You"] = this.localStream;
+            }
+
+            this.connectionManager.GetClientIds()
+                .filter(clientId => this.remoteStreams.hasOwnProperty(clientId))
+                .forEach(clientId => {
+                    const profile: Profile = this.GetRemoteProfile(clientId);
+                    // Names aren't unique, so keep the ID too
+                    const name: string = (profile != null && profile.Name.length > 0 ? profile.Name + " " : "") + clientId.substring(0, 6);
+                    separateStreams["Attendee " + name] = this.remoteStreams[clientId];
+                });
+        }
+
+        try {
+            this.recorder.Start(this.userMedia.GetMixedAudioStream(), separateStreams);
+        }
+        catch (err) {
+            console.error(err);
+            this.OnMessage("Unable to start recording: " + err.message, "info");
+        }
+    }
+
+    public PauseRecording(): void {
+        this.recorder.Pause();
+    }
+
+    public ResumeRecording(): void {
+        this.recorder.Resume();
+    }
+
+    public async StopRecording(): Promise<void> {
+        await this.recorder.Stop();
+    }
+
+    private static GetCodecPreferences(settings: IUserMediaSettings): CodecPreferences {
+        const preferences: CodecPreferences = new CodecPreferences();
+        preferences.VideoCodec = settings.VideoCodec.Value == "Default" ? null : settings.VideoCodec.Value;
+        preferences.OpusStereo = settings.AudioStereo.Value;
+        preferences.OpusMaxAverageBitrate = Number(settings.AudioMaxBitrate.Value) * 1000;
+        preferences.OpusInBandFec = settings.AudioErrorCorrection.Value;
+        preferences.OpusDtx = settings.AudioSilenceSuppression.Value;
+        return preferences;
+    }
+
+    private static IsTurnServer(server: RTCIceServer): boolean {
+        const urls: string[] = typeof server.urls === "string" ? [server.urls] : server.urls;
+        return urls.some(url => url.startsWith("turn:") || url.startsWith("turns:"));
+    }
 
     public async Start(): Promise<void> {
         this.userMedia.OnMediaStreamAvailable = mediaStream => {
@@ -62,21 +292,91 @@ export class ChatApp {
             return;
         }
 
-        const broker: IBroker = new Broker(this.sessionConfig);
+        const brokerFactory: IBrokerFactory = new BrokerFactory();
 
-        let peerConnectorFactory = new PeerConnectorFactory();
+        let broker: IBroker;
+        try {
+            broker = brokerFactory.CreateBroker(this.sessionConfig);
+        }
+        catch (err) {
+            console.error(err);
+            this.OnMessage("Unable to set up signalling: " + err.message, "fatal");
+            return;
+        }
+
+        const iceServerProvider: IIceServerProvider = new IceServerProvider(this.sessionConfig);
+        await iceServerProvider.Refresh();
+
+        if (this.sessionConfig.IceTransportPolicy == "relay" && !iceServerProvider.GetConfiguration().iceServers.some(server => ChatApp.IsTurnServer(server))) {
+            this.OnMessage("Relay only mode is enabled, but there are no TURN servers configured to relay through. You won't be able to connect to anyone.", "fatal");
+        }
+
+        let peerConnectorFactory = new PeerConnectorFactory(iceServerProvider, this.sessionConfig.CandidateBatchWindow);
 
         this.connectionManager = new ConnectionManager(broker, this.sessionConfig, peerConnectorFactory);
         this.connectionManager.OnLocation = (clientId, location) => this.OnLocation(clientId, location);
         this.connectionManager.OnConnectionChanged = (clientId, change) => this.OnConnectionChanged(clientId, change);
+        this.connectionManager.OnChatMessage = message => this.OnChatMessage(message);
+        this.connectionManager.OnChatMessageDelivered = (clientId, messageId) => this.OnChatMessageDelivered(clientId, messageId);
+        this.fileTransferManager = new FileTransferManager(this.connectionManager);
+        this.fileTransferManager.OnTransferChanged = transfer => this.OnFileTransferChanged(transfer);
+        this.fileTransferManager.OnFileReceived = (transfer, file) => this.OnFileReceived(transfer, file);
+
         this.connectionManager.OnNeedLocalStream = () => this.localStream;
         this.connectionManager.OnHasStreams = (clientId, streams) => {
             streams.forEach(stream => {
+                this.remoteStreams[clientId] = stream;
                 this.OnRemoteStream(clientId, stream);
             });
         };
 
-        await broker.Open();
+        this.bitrateController = new BitrateController(this.connectionManager);
+        this.bitrateController.SetSettings(this.userMedia.GetSettings());
+        this.connectionManager.SetCodecPreferences(ChatApp.GetCodecPreferences(this.userMedia.GetSettings()));
+
+        this.userMedia.OnSettingsChanged = settings => {
+            this.bitrateController.SetSettings(settings);
+            this.connectionManager.SetCodecPreferences(ChatApp.GetCodecPreferences(settings));
+        };
+
+        this.statisticsCollector = new StatisticsCollector(this.connectionManager);
+        this.statisticsCollector.OnStatistics = (clientId, statistics) => {
+            this.bitrateController.StatisticsUpdated(clientId, statistics);
+            this.OnStatistics(clientId, statistics);
+        };
+        this.statisticsCollector.Start();
+
+        this.activeSpeakerDetector = new ActiveSpeakerDetector(this.userMedia, this.connectionManager);
+        this.activeSpeakerDetector.OnActiveSpeakerChanged = clientId => this.OnActiveSpeakerChanged(clientId);
+        this.activeSpeakerDetector.OnAudioLevels = levels => this.OnAudioLevels(levels);
+        this.activeSpeakerDetector.Start();
+
+        this.recorder.OnNeedVideoElements = () => this.OnNeedVideoElements();
+        this.recorder.OnRecordingsAvailable = recordings => this.OnRecordingsAvailable(recordings);
+        this.recorder.OnStateChanged = state => {
+            this.connectionManager.SetRecording(state != RecordingState.Inactive);
+            this.OnRecordingStateChanged(state);
+        };
+        this.connectionManager.OnRecordingChanged = (clientId, isRecording) => this.OnRemoteRecordingChanged(clientId, isRecording);
+
+        this.connectionManager.SetProfile(this.profile);
+        this.connectionManager.OnProfileChanged = (clientId, profile) => {
+            this.remoteProfiles[clientId] = profile;
+            this.OnProfileChanged(clientId, profile);
+        };
+
+        iceServerProvider.OnRefreshed = configuration => this.connectionManager.SetIceConfiguration(configuration);
+
+        broker.OnStateChanged = state => this.OnSignallingStateChanged(state);
+
+        try {
+            await broker.Open();
+        }
+        catch (err) {
+            console.error(err);
+            this.OnMessage("Unable to connect to the signalling server. Please check your connection, then refresh the page.", "fatal");
+            return;
+        }
 
         this.OnMessage("✔️ Connected! Share this link:<br/><a href='" + window.location + "'>" + window.location + "</a>", "success");
     }
@@ -0,0 +1,18 @@
+export class ChatMessage {
+    public MessageId: string;
+    public FromId: string;
+    public Timestamp: number;
+    public Text: string;
+}
+
+export enum ChatDataType {
+    Message = "message",
+    Acknowledge = "acknowledge"
+}
+
+export interface IChatData {
+    Type: ChatDataType;
+    MessageId: string;
+    Timestamp?: number;
+    Text?: string;
+}
@@ -0,0 +1,92 @@
+export class CodecPreferences {
+    // For example "VP9", or null to let the browser decide
+    public VideoCodec: string = null;
+    public OpusStereo: boolean = false;
+    // Bits per second, zero leaves it up to the browser
+    public OpusMaxAverageBitrate: number = 0;
+    public OpusInBandFec: boolean = true;
+    public OpusDtx: boolean = false;
+}
+
+// Rewrites session descriptions for the things which can't be set through the API
+export class SdpMunger {
+    // For browsers without RTCRtpTransceiver.setCodecPreferences
+    public static PreferVideoCodec(sdp: string, codecName: string): string {
+        const lines: string[] = sdp.split("\r\n");
+
+        const preferredPayloadTypes: string[] = [];
+        lines.forEach(line => {
+            const match: RegExpMatchArray = line.match(/^a=rtpmap:(\d+) ([^\/]+)\//);
+            if (match != null && match[2].toUpperCase() == codecName.toUpperCase()) {
+                preferredPayloadTypes.push(match[1]);
+            }
+        });
+
+        if (preferredPayloadTypes.length == 0) {
+            return sdp;
+        }
+
+        return lines.map(line => {
+            if (!line.startsWith("m=video ")) {
+                return line;
+            }
+
+            // The payload types follow the port and protocol, in order of preference
+            const parts: string[] = line.split(" ");
+            const payloadTypes: string[] = parts.slice(3);
+            const reordered: string[] = payloadTypes.filter(payloadType => preferredPayloadTypes.indexOf(payloadType) >= 0)
+                .concat(payloadTypes.filter(payloadType => preferredPayloadTypes.indexOf(payloadType) < 0));
+            return parts.slice(0, 3).concat(reordered).join(" ");
+        }).join("\r\n");
+    }
+
+    public static SetOpusParameters(sdp: string, preferences: CodecPreferences): string {
+        const lines: string[] = sdp.split("\r\n");
+
+        let rtpmapIndex: number = -1;
+        let payloadType: string = null;
+        for (let i = 0; i < lines.length; i++) {
+            const match: RegExpMatchArray = lines[i].match(/^a=rtpmap:(\d+) opus\/48000/i);
+            if (match != null) {
+                rtpmapIndex = i;
+                payloadType = match[1];
+                break;
+            }
+        }
+
+        if (payloadType == null) {
+            return sdp;
+        }
+
+        const fmtpPrefix: string = "a=fmtp:" + payloadType + " ";
+        let fmtpIndex: number = lines.findIndex(line => line.startsWith(fmtpPrefix));
+        if (fmtpIndex < 0) {
+            lines.splice(rtpmapIndex + 1, 0, fmtpPrefix);
+            fmtpIndex = rtpmapIndex + 1;
+        }
+
+        const parameters: { [name: string]: string; } = {};
+        lines[fmtpIndex].substring(fmtpPrefix.length).split(";")
+            .map(parameter => parameter.trim())
+            .filter(parameter => parameter.length > 0)
+            .forEach(parameter => {
+                const separator: number = parameter.indexOf("=");
+                parameters[parameter.substring(0, separator)] = parameter.substring(separator + 1);
+            });
+
+        parameters["stereo"] = preferences.OpusStereo ? "1" : "0";
+        parameters["sprop-stereo"] = preferences.OpusStereo ? "1" : "0";
+        parameters["useinbandfec"] = preferences.OpusInBandFec ? "1" : "0";
+        parameters["usedtx"] = preferences.OpusDtx ? "1" : "0";
+
+        if (preferences.OpusMaxAverageBitrate > 0) {
+            parameters["maxaveragebitrate"] = Math.round(preferences.OpusMaxAverageBitrate).toString();
+        }
+        else {
+            delete parameters["maxaveragebitrate"];
+        }
+
+        lines[fmtpIndex] = fmtpPrefix + Object.keys(parameters).map(name => name + "=" + parameters[name]).join(";");
+        return lines.join("\r\n");
+    }
+}
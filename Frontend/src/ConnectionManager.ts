@@ -1,7 +1,13 @@
-import { IBroker, Envelope } from "./Broker";
-import { IPeerConnector, ConnectionChange } from "./PeerConnector";
+import { IBroker } from "./Broker";
+import { Envelope, Capability, LocalCapabilities } from "./SignallingProtocol";
+import { IPeerConnector, ConnectionChange, ConnectionChangeType, VideoEncoding } from "./PeerConnector";
+import { CodecPreferences } from "./CodecPreferences";
+import { PeerRecovery, RecoveryState } from "./PeerRecovery";
 import { ISessionConfig } from "./SessionConfig";
 import { IPeerConnectorFactory } from "./PeerConnectorFactory";
+import { ChatMessage, ChatDataType, IChatData } from "./ChatMessage";
+import { Profile } from "./Profile";
+import { v4 as uuidv4 } from 'uuid';
 
 interface OnHasStreamsDelegate {
     (fromId: string, streams: readonly MediaStream[]): void;
@@ -27,14 +33,50 @@ interface OnClientLocationDelegate {
     (clientId: string, location: ClientLocation): void;
 }
 
+interface OnChatMessageDelegate {
+    (message: ChatMessage): void;
+}
+
+interface OnChatMessageDeliveredDelegate {
+    (clientId: string, messageId: string): void;
+}
+
+interface OnFileDataDelegate {
+    (clientId: string, data: string | ArrayBuffer): void;
+}
+
+interface OnRecordingChangedDelegate {
+    (clientId: string, isRecording: boolean): void;
+}
+
+interface OnProfileChangedDelegate {
+    (clientId: string, profile: Profile): void;
+}
+
+interface OnFileChannelChangedDelegate {
+    (clientId: string, isOpen: boolean): void;
+}
+
 export class ConnectionManager {
     private readonly broker: IBroker;
     public OnHasStreams: OnHasStreamsDelegate;
     public OnNeedLocalStream: OnNeedLocalStreamDelegate;
     public OnConnectionChanged: OnClientConnectionChangedDelegate;
     public OnLocation: OnClientLocationDelegate;
+    public OnChatMessage: OnChatMessageDelegate;
+    public OnChatMessageDelivered: OnChatMessageDeliveredDelegate;
+    public OnFileData: OnFileDataDelegate;
+    public OnFileChannelChanged: OnFileChannelChangedDelegate;
+    public OnRecordingChanged: OnRecordingChangedDelegate;
+    public OnProfileChanged: OnProfileChangedDelegate;
 
     private connectors: { [fromId: string]: IPeerConnector; } = {};
+    private capabilities: { [fromId: string]: string[]; } = {};
+    private recoveries: { [fromId: string]: PeerRecovery; } = {};
+    private videoEncodings: { [fromId: string]: VideoEncoding; } = {};
+    private codecPreferences: CodecPreferences = new CodecPreferences();
+    private isRecording: boolean = false;
+    private profile: Profile = null;
     private readonly sessionConfig: ISessionConfig;
     private readonly peerConnectorFactory: IPeerConnectorFactory;
 
@@ -55,31 +97,246 @@ export class ConnectionManager {
         }
     }
 
+    public SetIceConfiguration(configuration: RTCConfiguration): void {
+        for (let clientId in this.connectors) {
+            if (this.connectors.hasOwnProperty(clientId)) {
+                this.connectors[clientId].SetConfiguration(configuration);
+            }
+        }
+    }
+
+    public HasCapability(clientId: string, capability: Capability): boolean {
+        // Assume peers we haven't heard capabilities from are up to date
+        if (!this.capabilities.hasOwnProperty(clientId)) {
+            return true;
+        }
+
+        return this.capabilities[clientId].indexOf(capability) >= 0;
+    }
+
+    public GetClientIds(): string[] {
+        return Object.keys(this.connectors);
+    }
+
+    public SetCodecPreferences(preferences: CodecPreferences): void {
+        // Changing them means renegotiating with everyone, so only do it when needed
+        if (JSON.stringify(preferences) == JSON.stringify(this.codecPreferences)) {
+            return;
+        }
+
+        this.codecPreferences = preferences;
+
+        for (let clientId in this.connectors) {
+            if (this.connectors.hasOwnProperty(clientId)) {
+                this.connectors[clientId].SetCodecPreferences(preferences);
+            }
+        }
+    }
+
+    // Kept across rebuilds, so a replacement connector sends the same quality
+    public SetVideoEncoding(clientId: string, encoding: VideoEncoding): void {
+        this.videoEncodings[clientId] = encoding;
+
+        if (this.connectors.hasOwnProperty(clientId)) {
+            this.connectors[clientId].SetVideoEncoding(encoding);
+        }
+    }
+
+    // Everyone should know they're being recorded, including people who join later
+    public SetRecording(isRecording: boolean): void {
+        this.isRecording = isRecording;
+
+        for (let clientId in this.connectors) {
+            if (this.connectors.hasOwnProperty(clientId)) {
+                this.SendRecording(clientId);
+            }
+        }
+    }
+
+    private SendRecording(clientId: string): void {
+        if (this.HasCapability(clientId, Capability.Recording)) {
+            this.broker.Send({ isRecording: this.isRecording }, "recording", clientId);
+        }
+    }
+
+    // Sent to everyone now, and to anyone who joins later
+    public SetProfile(profile: Profile): void {
+        this.profile = profile;
+
+        for (let clientId in this.connectors) {
+            if (this.connectors.hasOwnProperty(clientId)) {
+                this.SendProfile(clientId);
+            }
+        }
+    }
+
+    private SendProfile(clientId: string): void {
+        if (this.profile == null || !this.HasCapability(clientId, Capability.Profile)) {
+            return;
+        }
+
+        this.broker.Send({
+            name: this.profile.Name,
+            status: this.profile.Status,
+            avatarImage: this.profile.AvatarImage,
+            avatarColour: this.profile.AvatarColour
+        }, "profile", clientId);
+    }
+
+    // Tells everyone we're going, then closes every connection
+    public Leave(): void {
+        for (let clientId in this.connectors) {
+            if (this.connectors.hasOwnProperty(clientId)) {
+                this.broker.Send({}, "leave", clientId);
+                this.RemoveConnector(clientId);
+            }
+        }
+    }
+
+    // Returns null if there is no connection to the client
+    public async GetStatistics(clientId: string): Promise<RTCStatsReport> {
+        if (!this.connectors.hasOwnProperty(clientId)) {
+            return null;
+        }
+
+        return await this.connectors[clientId].GetStatistics();
+    }
+
+    public async SendFileData(clientId: string, data: string | ArrayBuffer): Promise<void> {
+        if (!this.connectors.hasOwnProperty(clientId)) {
+            throw new Error("There is no connection to " + clientId);
+        }
+
+        await this.connectors[clientId].SendFileData(data);
+    }
+
+    public SendChatMessage(text: string): ChatMessage {
+        const message: ChatMessage = new ChatMessage();
+        message.MessageId = uuidv4();
+        message.FromId = this.sessionConfig.AttendeeId;
+        message.Timestamp = Date.now();
+        message.Text = text;
+
+        const data: IChatData = {
+            Type: ChatDataType.Message,
+            MessageId: message.MessageId,
+            Timestamp: message.Timestamp,
+            Text: message.Text
+        };
+
+        const serialized: string = JSON.stringify(data);
+
+        for (let clientId in this.connectors) {
+            if (this.connectors.hasOwnProperty(clientId)) {
+                if (!this.HasCapability(clientId, Capability.Chat)) {
+                    console.warn("Not sending chat message to " + clientId + " as they don't support chat");
+                    continue;
+                }
+
+                if (!this.connectors[clientId].SendChatData(serialized)) {
+                    console.warn("Unable to send chat message to " + clientId + " as the channel is not open");
+                }
+            }
+        }
+
+        return message;
+    }
+
+    private OnChatData(fromId: string, serialized: string): void {
+        let data: IChatData;
+        try {
+            data = JSON.parse(serialized);
+        }
+        catch (err) {
+            console.warn("Ignoring malformed chat data from " + fromId);
+            return;
+        }
+
+        if (!ConnectionManager.IsValidChatData(data)) {
+            console.warn("Ignoring invalid chat data from " + fromId, data);
+            return;
+        }
+
+        if (data.Type == ChatDataType.Message) {
+            const message: ChatMessage = new ChatMessage();
+            message.MessageId = data.MessageId;
+            message.FromId = fromId;
+            message.Timestamp = data.Timestamp;
+            message.Text = data.Text;
+            this.OnChatMessage(message);
+
+            const acknowledgement: IChatData = {
+                Type: ChatDataType.Acknowledge,
+                MessageId: data.MessageId
+            };
+            this.connectors[fromId].SendChatData(JSON.stringify(acknowledgement));
+        }
+        if (data.Type == ChatDataType.Acknowledge) {
+            this.OnChatMessageDelivered(fromId, data.MessageId);
+        }
+    }
+
+    private static IsValidChatData(data: any): boolean {
+        if (typeof data !== "object" || data === null || typeof data.MessageId !== "string") {
+            return false;
+        }
+
+        switch (data.Type) {
+            case ChatDataType.Message:
+                return typeof data.Timestamp === "number" && typeof data.Text === "string";
+            case ChatDataType.Acknowledge:
+                return true;
+            default:
+                return false;
+        }
+    }
+
     private CreateConnector(fromId: string): void {
         if (this.connectors.hasOwnProperty(fromId)) {
             return;
         }
 
-        const shouldOffer: boolean = fromId < this.sessionConfig.AttendeeId;
+        // Both sides need to agree on who backs down when offers collide
+        const isPolite: boolean = fromId < this.sessionConfig.AttendeeId;
 
-        const peerConnector = this.peerConnectorFactory.CreatePeerConnector(shouldOffer);
-        console.log("Creating peer connector for " + fromId + " (shouldOffer: " + shouldOffer + ")");
+        const peerConnector = this.peerConnectorFactory.CreatePeerConnector(isPolite);
+        console.log("Creating peer connector for " + fromId + " (isPolite: " + isPolite + ")");
 
         peerConnector.OnConnectionChanged = change => {
-            this.OnConnectionChanged(fromId, change);
-            
-            // If any change type is failed, clean up
-            if (change.State == "failed") {
-                console.warn("Deleting connector from " + fromId);
-                this.connectors[fromId].Shutdown();
-                delete this.connectors[fromId];
+            // Ignore the last gasps of a connector we have since replaced
+            if (this.connectors[fromId] !== peerConnector) {
+                return;
             }
+
+            this.OnConnectionChanged(fromId, change);
+            this.recoveries[fromId].ConnectionChanged(change);
         };
 
         peerConnector.OnHasIceCandidates = candidates => {
             this.broker.Send(candidates, "candidates", fromId);
         }
 
+        peerConnector.OnEndOfCandidates = usernameFragment => {
+            this.broker.Send({ usernameFragment: usernameFragment }, "endofcandidates", fromId);
+        }
+
+        peerConnector.OnChatData = data => {
+            this.OnChatData(fromId, data);
+        };
+
+        peerConnector.OnFileData = data => {
+            if (this.connectors[fromId] === peerConnector) {
+                this.OnFileData(fromId, data);
+            }
+        };
+
+        // A replaced connector's channel closing late would interrupt transfers on the new one
+        peerConnector.OnFileChannelChanged = isOpen => {
+            if (this.connectors[fromId] === peerConnector) {
+                this.OnFileChannelChanged(fromId, isOpen);
+            }
+        };
+
         peerConnector.OnHasStreams = streams => {
             this.OnHasStreams(fromId, streams);
         };
@@ -92,37 +349,157 @@ export class ConnectionManager {
             this.broker.Send(offer, "accept", fromId);
         };
 
+        peerConnector.SetCodecPreferences(this.codecPreferences);
         peerConnector.StartLocalStream(this.OnNeedLocalStream());
         this.connectors[fromId] = peerConnector;
+
+        if (this.videoEncodings.hasOwnProperty(fromId)) {
+            peerConnector.SetVideoEncoding(this.videoEncodings[fromId]);
+        }
+
+        if (!this.recoveries.hasOwnProperty(fromId)) {
+            this.CreateRecovery(fromId, !isPolite);
+        }
     }
 
-    private OnMessage(message: Envelope) {
-        if (message.FromId == this.sessionConfig.AttendeeId) {
+    private CreateRecovery(fromId: string, canRebuild: boolean): void {
+        const recovery: PeerRecovery = new PeerRecovery(canRebuild, this.sessionConfig.RecoveryGracePeriod * 1000);
+
+        recovery.OnRestartIce = () => this.connectors[fromId].RestartIce();
+        recovery.OnRenegotiate = () => this.connectors[fromId].Renegotiate();
+        recovery.OnRebuild = () => this.ResetConnector(fromId, "Connection did not recover");
+
+        recovery.OnStateChanged = state => {
+            this.OnConnectionChanged(fromId, new ConnectionChange(ConnectionChangeType.Recovery, state));
+
+            if (state == RecoveryState.Failed) {
+                console.warn("Giving up on connector from " + fromId);
+                this.RemoveConnector(fromId);
+            }
+
+            if (state == RecoveryState.Left) {
+                console.log(fromId + " left");
+                this.RemoveConnector(fromId);
+            }
+        };
+
+        this.recoveries[fromId] = recovery;
+    }
+
+    // Rebuilds both ends, as the remote side starts afresh when it gets the reset
+    private ResetConnector(fromId: string, reason: string): void {
+        this.broker.Send({ reason: reason }, "reset", fromId);
+        this.RebuildConnector(fromId);
+    }
+
+    // Negotiation can't carry on from a description that wasn't applied, so start again
+    private DescriptionFailed(fromId: string, connector: IPeerConnector, err: Error): void {
+        console.error("Unable to accept description from " + fromId + ": " + err);
+
+        // Ignore failures from a connector we have since replaced
+        if (this.connectors[fromId] !== connector) {
             return;
         }
 
-        this.CreateConnector(message.FromId);
+        this.ResetConnector(fromId, "Unable to accept description: " + err.message);
+        this.recoveries[fromId].Rebuilt();
+    }
 
-        if (message.Type == "offer") {
-            this.connectors[message.FromId].AcceptOffer(message.Data);
+    private RebuildConnector(fromId: string): void {
+        console.warn("Rebuilding connector from " + fromId);
+        this.connectors[fromId].Shutdown();
+        delete this.connectors[fromId];
+        this.OnFileChannelChanged(fromId, false);
+        this.CreateConnector(fromId);
+    }
+
+    private RemoveConnector(fromId: string): void {
+        this.recoveries[fromId].Stop();
+        delete this.recoveries[fromId];
+        delete this.videoEncodings[fromId];
+
+        if (this.connectors.hasOwnProperty(fromId)) {
+            this.connectors[fromId].Shutdown();
+            delete this.connectors[fromId];
+            this.OnFileChannelChanged(fromId, false);
         }
-        if (message.Type == "accept") {
-            this.connectors[message.FromId].AcceptAnswer(message.Data);
+    }
+
+    private OnMessage(message: Envelope) {
+        if (message.FromId == this.sessionConfig.AttendeeId) {
+            return;
         }
-        if (message.Type == "candidates") {
-            this.connectors[message.FromId].AddRemoteCandidates(message.Data);
+
+        // The remote side gave up on its connector, so start afresh with ours
+        if (message.Type == "reset" && this.connectors.hasOwnProperty(message.FromId)) {
+            console.warn("Remote reset connector from " + message.FromId + ": " + message.Data.reason);
+            this.RebuildConnector(message.FromId);
+            this.recoveries[message.FromId].Rebuilt();
+            return;
         }
-        if (message.Type == "location") {
-            let location: ClientLocation = new ClientLocation();
-            location.CityName = message.Data["cityName"];
-            location.CountryName = message.Data["countryName"];
-            location.CountryCode = message.Data["countryCode"];
-            location.ContinentName = message.Data["continentName"];
-            location.SubdivisionName = message.Data["subdivisionName"];
-            this.OnLocation(message.FromId, location);
+
+        // Don't create a connector just to tear it down again
+        if (message.Type == "leave") {
+            if (this.recoveries.hasOwnProperty(message.FromId)) {
+                this.recoveries[message.FromId].Left();
+            }
+            return;
         }
-        if (message.Type == "discover") {
-            this.broker.Send({}, "acknowledge", message.FromId);
+
+        this.CreateConnector(message.FromId);
+
+        const fromId: string = message.FromId;
+        const connector: IPeerConnector = this.connectors[fromId];
+
+        switch (message.Type) {
+            case "offer":
+                connector.AcceptOffer(message.Data).catch(err => this.DescriptionFailed(fromId, connector, err));
+                break;
+            case "accept":
+                connector.AcceptAnswer(message.Data).catch(err => this.DescriptionFailed(fromId, connector, err));
+                break;
+            // A bad candidate only rules itself out, so there's nothing to recover
+            case "candidates":
+                connector.AddRemoteCandidates(message.Data).catch(err => console.warn("Unable to add remote candidates from " + fromId + ": " + err));
+                break;
+            case "endofcandidates":
+                connector.AddRemoteEndOfCandidates(message.Data.usernameFragment).catch(err => console.warn("Unable to add end of candidates from " + fromId + ": " + err));
+                break;
+            case "location":
+                let location: ClientLocation = new ClientLocation();
+                location.CityName = message.Data.cityName;
+                location.CountryName = message.Data.countryName;
+                location.CountryCode = message.Data.countryCode;
+                location.ContinentName = message.Data.continentName;
+                location.SubdivisionName = message.Data.subdivisionName;
+                this.OnLocation(message.FromId, location);
+                break;
+            case "discover":
+                this.capabilities[message.FromId] = message.Data.capabilities;
+                this.broker.Send({ capabilities: LocalCapabilities }, "acknowledge", message.FromId);
+                if (this.isRecording) {
+                    this.SendRecording(message.FromId);
+                }
+                this.SendProfile(message.FromId);
+                break;
+            case "acknowledge":
+                this.capabilities[message.FromId] = message.Data.capabilities;
+                if (this.isRecording) {
+                    this.SendRecording(message.FromId);
+                }
+                this.SendProfile(message.FromId);
+                break;
+            case "recording":
+                this.OnRecordingChanged(message.FromId, message.Data.isRecording);
+                break;
+            case "profile":
+                let profile: Profile = new Profile();
+                profile.Name = message.Data.name;
+                profile.Status = message.Data.status;
+                profile.AvatarImage = message.Data.avatarImage;
+                profile.AvatarColour = message.Data.avatarColour;
+                this.OnProfileChanged(message.FromId, profile);
+                break;
         }
     }
-}
\ No newline at end of file
+}
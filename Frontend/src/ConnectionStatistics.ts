@@ -0,0 +1,324 @@
+import { ConnectionManager } from "./ConnectionManager";
+
+export class PeerStatistics {
+    public Timestamp: number;
+    // Bits per second, across all inbound or outbound streams
+    public InboundBitrate: number = 0;
+    public OutboundBitrate: number = 0;
+    // Fraction of inbound packets lost since the last sample, from 0 to 1
+    public PacketLoss: number = 0;
+    // Fraction of our packets the remote side reported losing, from 0 to 1
+    public OutboundPacketLoss: number = null;
+    // Seconds
+    public Jitter: number = 0;
+    public RoundTripTime: number = null;
+    public FramesPerSecond: number = null;
+    public FrameWidth: number = null;
+    public FrameHeight: number = null;
+    public AudioCodec: string = null;
+    public VideoCodec: string = null;
+    public LocalCandidateType: string = null;
+    public RemoteCandidateType: string = null;
+    // Why the browser is limiting our outgoing video, if it is
+    public QualityLimitationReason: string = null;
+    // From 0 (unusable) to 4 (excellent)
+    public SignalStrength: number = 0;
+}
+
+// Running totals from the previous sample, used to work out rates
+class StatisticsTotals {
+    public Timestamp: number;
+    public BytesReceived: number = 0;
+    public BytesSent: number = 0;
+    public PacketsReceived: number = 0;
+    public PacketsLost: number = 0;
+}
+
+// The DOM typings predate the current statistics spec, whose type names are hyphenated,
+// so these widen type and add the fields browsers report today
+export interface IStats extends Omit<RTCStats, "type"> {
+    type: string;
+}
+
+interface IInboundRtpStats extends Omit<RTCInboundRTPStreamStats, "type"> {
+    type: string;
+    kind?: string;
+    framesPerSecond?: number;
+    frameWidth?: number;
+    frameHeight?: number;
+}
+
+interface IOutboundRtpStats extends Omit<RTCOutboundRTPStreamStats, "type"> {
+    type: string;
+    qualityLimitationReason?: string;
+}
+
+interface IRemoteInboundRtpStats extends Omit<RTCInboundRTPStreamStats, "type"> {
+    type: string;
+    roundTripTime?: number;
+}
+
+interface ITransportStats extends Omit<RTCTransportStats, "type"> {
+    type: string;
+}
+
+export interface ICandidatePairStats extends Omit<RTCIceCandidatePairStats, "type"> {
+    type: string;
+    currentRoundTripTime?: number;
+    // Only reported by Firefox
+    selected?: boolean;
+}
+
+interface ICandidateStats extends Omit<RTCIceCandidateAttributes, "type" | "candidateType"> {
+    type: string;
+    candidateType?: string;
+}
+
+interface ICodecStats extends IStats {
+    mimeType?: string;
+}
+
+interface OnStatisticsDelegate {
+    (clientId: string, statistics: PeerStatistics): void;
+}
+
+export class StatisticsReports {
+    public static ToDictionary(report: RTCStatsReport): { [id: string]: IStats } {
+        const reports: { [id: string]: IStats } = {};
+        report.forEach((value: IStats) => reports[value.id] = value);
+        return reports;
+    }
+
+    public static FindSelectedCandidatePair(reports: { [id: string]: IStats }): ICandidatePairStats {
+        let selectedPair: ICandidatePairStats = null;
+        for (let id in reports) {
+            const report: IStats = reports[id];
+            if (report.type == "transport") {
+                const transport: ITransportStats = <ITransportStats>report;
+                if (reports.hasOwnProperty(transport.selectedCandidatePairId)) {
+                    selectedPair = <ICandidatePairStats>reports[transport.selectedCandidatePairId];
+                }
+            }
+            // Firefox doesn't report transports, but flags the selected pair instead
+            else if (report.type == "candidate-pair" && (<ICandidatePairStats>report).selected && selectedPair == null) {
+                selectedPair = <ICandidatePairStats>report;
+            }
+        }
+        return selectedPair;
+    }
+
+    // Null if the candidate isn't in the reports
+    public static GetCandidateType(reports: { [id: string]: IStats }, candidateId: string): string {
+        if (candidateId == null || !reports.hasOwnProperty(candidateId)) {
+            return null;
+        }
+
+        return (<ICandidateStats>reports[candidateId]).candidateType;
+    }
+}
+
+export class StatisticsCollector {
+    private readonly connectionManager: ConnectionManager;
+    private totals: { [clientId: string]: StatisticsTotals; } = {};
+    private history: { [clientId: string]: PeerStatistics[]; } = {};
+    private pollInterval: number;
+    // getStats can take longer than the poll period on a struggling machine
+    private isPolling: boolean = false;
+
+    private static readonly PollPeriod: number = 1000;
+    private static readonly HistoryLength: number = 60;
+
+    public OnStatistics: OnStatisticsDelegate;
+
+    constructor(connectionManager: ConnectionManager) {
+        this.connectionManager = connectionManager;
+    }
+
+    public Start(): void {
+        this.Stop();
+        this.pollInterval = window.setInterval(() => this.Poll(), StatisticsCollector.PollPeriod);
+    }
+
+    public Stop(): void {
+        clearInterval(this.pollInterval);
+    }
+
+    public GetHistory(clientId: string): PeerStatistics[] {
+        return this.history.hasOwnProperty(clientId) ? this.history[clientId].slice() : [];
+    }
+
+    public GetLatest(clientId: string): PeerStatistics {
+        const history: PeerStatistics[] = this.GetHistory(clientId);
+        return history.length > 0 ? history[history.length - 1] : null;
+    }
+
+    private async Poll(): Promise<void> {
+        if (this.isPolling) {
+            return;
+        }
+
+        this.isPolling = true;
+        try {
+            await this.PollClients();
+        }
+        finally {
+            this.isPolling = false;
+        }
+    }
+
+    private async PollClients(): Promise<void> {
+        const clientIds: string[] = this.connectionManager.GetClientIds();
+
+        // Forget about anyone who has left
+        for (let clientId in this.history) {
+            if (clientIds.indexOf(clientId) < 0) {
+                delete this.history[clientId];
+                delete this.totals[clientId];
+            }
+        }
+
+        for (let i = 0; i < clientIds.length; i++) {
+            const clientId: string = clientIds[i];
+
+            let report: RTCStatsReport;
+            try {
+                report = await this.connectionManager.GetStatistics(clientId);
+            }
+            catch (err) {
+                console.warn("Unable to get statistics for " + clientId + ": " + err);
+                continue;
+            }
+
+            if (report == null) {
+                continue;
+            }
+
+            const statistics: PeerStatistics = this.Process(clientId, StatisticsReports.ToDictionary(report));
+
+            if (!this.history.hasOwnProperty(clientId)) {
+                this.history[clientId] = [];
+            }
+
+            this.history[clientId].push(statistics);
+            if (this.history[clientId].length > StatisticsCollector.HistoryLength) {
+                this.history[clientId].shift();
+            }
+
+            this.OnStatistics(clientId, statistics);
+        }
+    }
+
+    private Process(clientId: string, reports: { [id: string]: IStats }): PeerStatistics {
+        const statistics: PeerStatistics = new PeerStatistics();
+        statistics.Timestamp = Date.now();
+
+        const totals: StatisticsTotals = new StatisticsTotals();
+        totals.Timestamp = statistics.Timestamp;
+
+        for (let id in reports) {
+            const report: IStats = reports[id];
+
+            if (report.type == "inbound-rtp") {
+                const inbound: IInboundRtpStats = <IInboundRtpStats>report;
+                if (!inbound.isRemote) {
+                    totals.BytesReceived += inbound.bytesReceived || 0;
+                    totals.PacketsReceived += inbound.packetsReceived || 0;
+                    totals.PacketsLost += inbound.packetsLost || 0;
+                    statistics.Jitter = Math.max(statistics.Jitter, inbound.jitter || 0);
+
+                    if (inbound.kind == "video" || inbound.mediaType == "video") {
+                        statistics.FramesPerSecond = inbound.framesPerSecond != null ? inbound.framesPerSecond : statistics.FramesPerSecond;
+                        statistics.FrameWidth = inbound.frameWidth != null ? inbound.frameWidth : statistics.FrameWidth;
+                        statistics.FrameHeight = inbound.frameHeight != null ? inbound.frameHeight : statistics.FrameHeight;
+                        statistics.VideoCodec = StatisticsCollector.GetCodec(reports, inbound.codecId) || statistics.VideoCodec;
+                    }
+                    else {
+                        statistics.AudioCodec = StatisticsCollector.GetCodec(reports, inbound.codecId) || statistics.AudioCodec;
+                    }
+                }
+            }
+
+            if (report.type == "outbound-rtp") {
+                const outbound: IOutboundRtpStats = <IOutboundRtpStats>report;
+                if (!outbound.isRemote) {
+                    totals.BytesSent += outbound.bytesSent || 0;
+
+                    if (outbound.qualityLimitationReason != null && outbound.qualityLimitationReason != "none") {
+                        statistics.QualityLimitationReason = outbound.qualityLimitationReason;
+                    }
+                }
+            }
+
+            // What the remote side told us about the packets we sent them
+            if (report.type == "remote-inbound-rtp") {
+                const remoteInbound: IRemoteInboundRtpStats = <IRemoteInboundRtpStats>report;
+                if (remoteInbound.roundTripTime != null && statistics.RoundTripTime == null) {
+                    statistics.RoundTripTime = remoteInbound.roundTripTime;
+                }
+                if (remoteInbound.fractionLost != null) {
+                    statistics.OutboundPacketLoss = Math.max(statistics.OutboundPacketLoss || 0, remoteInbound.fractionLost);
+                }
+            }
+        }
+
+        const selectedPair: ICandidatePairStats = StatisticsReports.FindSelectedCandidatePair(reports);
+        if (selectedPair != null) {
+            if (selectedPair.currentRoundTripTime != null) {
+                statistics.RoundTripTime = selectedPair.currentRoundTripTime;
+            }
+            statistics.LocalCandidateType = StatisticsReports.GetCandidateType(reports, selectedPair.localCandidateId);
+            statistics.RemoteCandidateType = StatisticsReports.GetCandidateType(reports, selectedPair.remoteCandidateId);
+        }
+
+        if (this.totals.hasOwnProperty(clientId)) {
+            const previous: StatisticsTotals = this.totals[clientId];
+            const elapsedSeconds: number = (totals.Timestamp - previous.Timestamp) / 1000;
+
+            if (elapsedSeconds > 0) {
+                statistics.InboundBitrate = Math.max(0, totals.BytesReceived - previous.BytesReceived) * 8 / elapsedSeconds;
+                statistics.OutboundBitrate = Math.max(0, totals.BytesSent - previous.BytesSent) * 8 / elapsedSeconds;
+            }
+
+            const packetsLost: number = Math.max(0, totals.PacketsLost - previous.PacketsLost);
+            const packetsReceived: number = Math.max(0, totals.PacketsReceived - previous.PacketsReceived);
+            if (packetsLost + packetsReceived > 0) {
+                statistics.PacketLoss = packetsLost / (packetsLost + packetsReceived);
+            }
+        }
+
+        this.totals[clientId] = totals;
+
+        statistics.SignalStrength = StatisticsCollector.GetSignalStrength(statistics);
+        return statistics;
+    }
+
+    private static GetCodec(reports: { [id: string]: IStats }, codecId: string): string {
+        if (codecId == null || !reports.hasOwnProperty(codecId)) {
+            return null;
+        }
+
+        // For example "audio/opus" becomes "opus"
+        const mimeType: string = (<ICodecStats>reports[codecId]).mimeType || "";
+        return mimeType.substring(mimeType.indexOf('/') + 1);
+    }
+
+    // A rough score of how good a call will feel, based on latency and loss
+    private static GetSignalStrength(statistics: PeerStatistics): number {
+        const roundTripTime: number = statistics.RoundTripTime == null ? 0 : statistics.RoundTripTime;
+        const packetLoss: number = statistics.PacketLoss;
+
+        if (roundTripTime > 1 || packetLoss > 0.2) {
+            return 0;
+        }
+        if (roundTripTime > 0.5 || packetLoss > 0.1) {
+            return 1;
+        }
+        if (roundTripTime > 0.3 || packetLoss > 0.05) {
+            return 2;
+        }
+        if (roundTripTime > 0.15 || packetLoss > 0.01) {
+            return 3;
+        }
+        return 4;
+    }
+}
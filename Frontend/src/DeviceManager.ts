@@ -0,0 +1,61 @@
+interface OnDevicesChangedDelegate {
+    (devices: MediaDeviceInfo[]): void;
+}
+
+interface OnDeviceDelegate {
+    (device: MediaDeviceInfo): void;
+}
+
+// Keeps track of the microphones, cameras and speakers plugged in, and
+// reports which ones come and go
+export class DeviceManager {
+    private devices: MediaDeviceInfo[] = [];
+    private hasEnumerated: boolean = false;
+
+    public OnDevicesChanged: OnDevicesChangedDelegate;
+    public OnDeviceAdded: OnDeviceDelegate;
+    public OnDeviceRemoved: OnDeviceDelegate;
+
+    constructor() {
+        if (navigator.mediaDevices != null) {
+            navigator.mediaDevices.addEventListener("devicechange", () => this.Refresh());
+        }
+    }
+
+    public GetDevices(kind: MediaDeviceKind): MediaDeviceInfo[] {
+        return this.devices.filter(device => device.kind == kind);
+    }
+
+    public HasDevice(kind: MediaDeviceKind, deviceId: string): boolean {
+        return this.GetDevices(kind).some(device => device.deviceId == deviceId);
+    }
+
+    // Until the user has given permission, devices are listed without IDs or labels
+    public async Refresh(): Promise<void> {
+        let devices: MediaDeviceInfo[];
+        try {
+            devices = await navigator.mediaDevices.enumerateDevices();
+        }
+        catch (err) {
+            console.warn("Unable to list media devices: " + err);
+            return;
+        }
+
+        // Chrome adds aliases for whichever devices are the system defaults
+        devices = devices.filter(device => device.deviceId.length > 0 && device.deviceId != "default" && device.deviceId != "communications");
+
+        const previousDevices: MediaDeviceInfo[] = this.devices;
+        this.devices = devices;
+
+        if (this.hasEnumerated) {
+            devices.filter(device => !previousDevices.some(previous => previous.deviceId == device.deviceId && previous.kind == device.kind))
+                .forEach(device => this.OnDeviceAdded(device));
+
+            previousDevices.filter(previous => !devices.some(device => device.deviceId == previous.deviceId && device.kind == previous.kind))
+                .forEach(device => this.OnDeviceRemoved(device));
+        }
+
+        this.hasEnumerated = devices.length > 0;
+        this.OnDevicesChanged(devices);
+    }
+}
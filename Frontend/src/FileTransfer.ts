@@ -0,0 +1,389 @@
+import { ConnectionManager } from "./ConnectionManager";
+import { v4 as uuidv4 } from 'uuid';
+
+export enum FileTransferDirection {
+    Outgoing,
+    Incoming
+}
+
+export enum FileTransferState {
+    Pending = "pending",
+    Transferring = "transferring",
+    Interrupted = "interrupted",
+    Verifying = "verifying",
+    Complete = "complete",
+    Failed = "failed",
+    Cancelled = "cancelled"
+}
+
+export class FileTransfer {
+    public TransferId: string;
+    public ClientId: string;
+    public Direction: FileTransferDirection;
+    public Name: string;
+    public Size: number;
+    public MimeType: string;
+    public Hash: string;
+    public BytesTransferred: number = 0;
+    public State: FileTransferState = FileTransferState.Pending;
+}
+
+enum FileControlType {
+    Offer = "offer",
+    Resume = "resume",
+    Complete = "complete",
+    Verified = "verified",
+    Cancel = "cancel"
+}
+
+interface IFileControl {
+    Type: FileControlType;
+    TransferId: string;
+    Name?: string;
+    Size?: number;
+    MimeType?: string;
+    Hash?: string;
+    Offset?: number;
+    Success?: boolean;
+}
+
+class OutgoingTransfer {
+    public Transfer: FileTransfer;
+    public File: Blob;
+    // Incremented every time sending (re)starts, so a stale send loop knows to stop
+    public Generation: number = 0;
+}
+
+class IncomingTransfer {
+    public Transfer: FileTransfer;
+    public Chunks: ArrayBuffer[] = [];
+}
+
+interface OnTransferChangedDelegate {
+    (transfer: FileTransfer): void;
+}
+
+interface OnFileReceivedDelegate {
+    (transfer: FileTransfer, file: Blob): void;
+}
+
+export class FileTransferManager {
+    private readonly connectionManager: ConnectionManager;
+    private outgoing: { [transferId: string]: OutgoingTransfer; } = {};
+    private incoming: { [transferId: string]: IncomingTransfer; } = {};
+
+    // Chunks carry the 36 character transfer ID as an ASCII prefix
+    private static readonly TransferIdLength: number = 36;
+    private static readonly TransferIdPattern: RegExp = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    // A hex encoded SHA-256 digest
+    private static readonly HashPattern: RegExp = /^[0-9a-f]{64}$/;
+    private static readonly ChunkSize: number = 16 * 1024;
+
+    public OnTransferChanged: OnTransferChangedDelegate;
+    public OnFileReceived: OnFileReceivedDelegate;
+
+    constructor(connectionManager: ConnectionManager) {
+        this.connectionManager = connectionManager;
+        this.connectionManager.OnFileData = (clientId, data) => this.OnFileData(clientId, data);
+        this.connectionManager.OnFileChannelChanged = (clientId, isOpen) => this.OnFileChannelChanged(clientId, isOpen);
+    }
+
+    public async SendFile(file: File, clientIds: string[]): Promise<FileTransfer[]> {
+        const hash: string = await FileTransferManager.ComputeHash(file);
+
+        return clientIds.map(clientId => {
+            const transfer: FileTransfer = new FileTransfer();
+            transfer.TransferId = uuidv4();
+            transfer.ClientId = clientId;
+            transfer.Direction = FileTransferDirection.Outgoing;
+            transfer.Name = file.name;
+            transfer.Size = file.size;
+            transfer.MimeType = file.type;
+            transfer.Hash = hash;
+
+            const outgoing: OutgoingTransfer = new OutgoingTransfer();
+            outgoing.Transfer = transfer;
+            outgoing.File = file;
+            this.outgoing[transfer.TransferId] = outgoing;
+
+            this.SendOffer(outgoing);
+            return transfer;
+        });
+    }
+
+    public CancelTransfer(transferId: string): void {
+        let transfer: FileTransfer;
+        if (this.outgoing.hasOwnProperty(transferId)) {
+            transfer = this.outgoing[transferId].Transfer;
+            delete this.outgoing[transferId];
+        }
+        else if (this.incoming.hasOwnProperty(transferId)) {
+            transfer = this.incoming[transferId].Transfer;
+            delete this.incoming[transferId];
+        }
+        else {
+            return;
+        }
+
+        this.SendControl(transfer.ClientId, { Type: FileControlType.Cancel, TransferId: transferId });
+        this.SetState(transfer, FileTransferState.Cancelled);
+    }
+
+    private SendOffer(outgoing: OutgoingTransfer): void {
+        const transfer: FileTransfer = outgoing.Transfer;
+        this.SendControl(transfer.ClientId, {
+            Type: FileControlType.Offer,
+            TransferId: transfer.TransferId,
+            Name: transfer.Name,
+            Size: transfer.Size,
+            MimeType: transfer.MimeType,
+            Hash: transfer.Hash
+        });
+    }
+
+    private async SendControl(clientId: string, control: IFileControl): Promise<void> {
+        try {
+            await this.connectionManager.SendFileData(clientId, JSON.stringify(control));
+        }
+        catch (err) {
+            // The transfer will pick up where it left off once the channel re-opens
+            console.warn("Unable to send " + control.Type + " for transfer " + control.TransferId + " to " + clientId + ": " + err);
+        }
+    }
+
+    private SetState(transfer: FileTransfer, state: FileTransferState): void {
+        transfer.State = state;
+        this.OnTransferChanged(transfer);
+    }
+
+    private OnFileChannelChanged(clientId: string, isOpen: boolean): void {
+        for (let transferId in this.outgoing) {
+            const outgoing = this.outgoing[transferId];
+            if (outgoing.Transfer.ClientId != clientId) {
+                continue;
+            }
+
+            if (isOpen) {
+                // Re-offering lets the receiver tell us how much it already has
+                if (outgoing.Transfer.State == FileTransferState.Pending || outgoing.Transfer.State == FileTransferState.Interrupted) {
+                    this.SendOffer(outgoing);
+                }
+            }
+            else if (outgoing.Transfer.State == FileTransferState.Transferring) {
+                outgoing.Generation++;
+                this.SetState(outgoing.Transfer, FileTransferState.Interrupted);
+            }
+        }
+
+        if (isOpen) {
+            return;
+        }
+
+        for (let transferId in this.incoming) {
+            const incoming = this.incoming[transferId];
+            if (incoming.Transfer.ClientId == clientId && incoming.Transfer.State == FileTransferState.Transferring) {
+                this.SetState(incoming.Transfer, FileTransferState.Interrupted);
+            }
+        }
+    }
+
+    private OnFileData(clientId: string, data: string | ArrayBuffer): void {
+        if (typeof data === "string") {
+            let control: IFileControl;
+            try {
+                control = JSON.parse(data);
+            }
+            catch (err) {
+                console.warn("Ignoring malformed file control message from " + clientId);
+                return;
+            }
+
+            this.OnFileControl(clientId, control);
+        }
+        else {
+            this.OnFileChunk(clientId, data);
+        }
+    }
+
+    private OnFileControl(clientId: string, control: IFileControl): void {
+        if (typeof control !== "object" || control === null || !FileTransferManager.IsValidTransferId(control.TransferId)) {
+            console.warn("Ignoring file control message without a valid transfer ID from " + clientId);
+            return;
+        }
+
+        const outgoing: OutgoingTransfer = this.outgoing.hasOwnProperty(control.TransferId) ? this.outgoing[control.TransferId] : null;
+        const incoming: IncomingTransfer = this.incoming.hasOwnProperty(control.TransferId) ? this.incoming[control.TransferId] : null;
+
+        // Ignore anything referencing a transfer that belongs to someone else
+        if ((outgoing != null && outgoing.Transfer.ClientId != clientId) ||
+            (incoming != null && incoming.Transfer.ClientId != clientId)) {
+            return;
+        }
+
+        if (control.Type == FileControlType.Offer) {
+            this.OnOffer(clientId, control, incoming);
+        }
+        if (control.Type == FileControlType.Resume && outgoing != null) {
+            // The receiver can't have more than the whole file, or less than none of it
+            const offset: number = typeof control.Offset === "number" && isFinite(control.Offset) ? Math.floor(control.Offset) : 0;
+            this.SendChunks(outgoing, Math.max(0, Math.min(outgoing.Transfer.Size, offset)));
+        }
+        if (control.Type == FileControlType.Complete && incoming != null) {
+            this.VerifyIncoming(incoming);
+        }
+        if (control.Type == FileControlType.Verified && outgoing != null) {
+            delete this.outgoing[control.TransferId];
+            this.SetState(outgoing.Transfer, control.Success ? FileTransferState.Complete : FileTransferState.Failed);
+        }
+        if (control.Type == FileControlType.Cancel) {
+            const cancelled: FileTransfer = outgoing != null ? outgoing.Transfer : incoming != null ? incoming.Transfer : null;
+            if (cancelled != null) {
+                delete this.outgoing[control.TransferId];
+                delete this.incoming[control.TransferId];
+                this.SetState(cancelled, FileTransferState.Cancelled);
+            }
+        }
+    }
+
+    private OnOffer(clientId: string, control: IFileControl, incoming: IncomingTransfer): void {
+        if (incoming == null) {
+            if (!FileTransferManager.IsValidOffer(control)) {
+                console.warn("Ignoring invalid file offer " + control.TransferId + " from " + clientId);
+                return;
+            }
+
+            const transfer: FileTransfer = new FileTransfer();
+            transfer.TransferId = control.TransferId;
+            transfer.ClientId = clientId;
+            transfer.Direction = FileTransferDirection.Incoming;
+            transfer.Name = control.Name;
+            transfer.Size = control.Size;
+            transfer.MimeType = control.MimeType;
+            transfer.Hash = control.Hash;
+
+            incoming = new IncomingTransfer();
+            incoming.Transfer = transfer;
+            this.incoming[transfer.TransferId] = incoming;
+        }
+
+        this.SetState(incoming.Transfer, FileTransferState.Transferring);
+        this.SendControl(clientId, { Type: FileControlType.Resume, TransferId: control.TransferId, Offset: incoming.Transfer.BytesTransferred });
+    }
+
+    private async SendChunks(outgoing: OutgoingTransfer, offset: number): Promise<void> {
+        const transfer: FileTransfer = outgoing.Transfer;
+        const generation: number = ++outgoing.Generation;
+
+        transfer.BytesTransferred = offset;
+        this.SetState(transfer, FileTransferState.Transferring);
+
+        const prefix: Uint8Array = FileTransferManager.EncodeTransferId(transfer.TransferId);
+
+        try {
+            while (transfer.BytesTransferred < transfer.Size) {
+                const end: number = Math.min(transfer.BytesTransferred + FileTransferManager.ChunkSize, transfer.Size);
+                const payload: ArrayBuffer = await outgoing.File.slice(transfer.BytesTransferred, end).arrayBuffer();
+
+                const chunk: Uint8Array = new Uint8Array(prefix.length + payload.byteLength);
+                chunk.set(prefix, 0);
+                chunk.set(new Uint8Array(payload), prefix.length);
+
+                // Stop if cancelled, interrupted or superseded by a newer resume
+                if (outgoing.Generation != generation || !this.outgoing.hasOwnProperty(transfer.TransferId)) {
+                    return;
+                }
+
+                await this.connectionManager.SendFileData(transfer.ClientId, chunk.buffer);
+                transfer.BytesTransferred = end;
+                this.OnTransferChanged(transfer);
+            }
+        }
+        catch (err) {
+            if (outgoing.Generation == generation) {
+                console.warn("Transfer " + transfer.TransferId + " was interrupted: " + err);
+                this.SetState(transfer, FileTransferState.Interrupted);
+            }
+            return;
+        }
+
+        if (outgoing.Generation == generation) {
+            this.SetState(transfer, FileTransferState.Verifying);
+            this.SendControl(transfer.ClientId, { Type: FileControlType.Complete, TransferId: transfer.TransferId });
+        }
+    }
+
+    private OnFileChunk(clientId: string, data: ArrayBuffer): void {
+        const transferId: string = FileTransferManager.DecodeTransferId(data);
+        if (!this.incoming.hasOwnProperty(transferId)) {
+            return;
+        }
+
+        const incoming: IncomingTransfer = this.incoming[transferId];
+        if (incoming.Transfer.ClientId != clientId || incoming.Transfer.State != FileTransferState.Transferring) {
+            return;
+        }
+
+        const payload: ArrayBuffer = data.slice(FileTransferManager.TransferIdLength);
+        if (incoming.Transfer.BytesTransferred + payload.byteLength > incoming.Transfer.Size) {
+            console.warn("Dropping chunk which goes past the end of transfer " + transferId);
+            return;
+        }
+
+        incoming.Chunks.push(payload);
+        incoming.Transfer.BytesTransferred += payload.byteLength;
+        this.OnTransferChanged(incoming.Transfer);
+    }
+
+    private async VerifyIncoming(incoming: IncomingTransfer): Promise<void> {
+        const transfer: FileTransfer = incoming.Transfer;
+        this.SetState(transfer, FileTransferState.Verifying);
+
+        const file: Blob = new Blob(incoming.Chunks, { type: transfer.MimeType });
+        const hash: string = await FileTransferManager.ComputeHash(file);
+        const success: boolean = file.size == transfer.Size && hash == transfer.Hash;
+
+        delete this.incoming[transfer.TransferId];
+        this.SendControl(transfer.ClientId, { Type: FileControlType.Verified, TransferId: transfer.TransferId, Success: success });
+
+        if (success) {
+            this.SetState(transfer, FileTransferState.Complete);
+            this.OnFileReceived(transfer, file);
+        }
+        else {
+            console.warn("Transfer " + transfer.TransferId + " failed its integrity check");
+            this.SetState(transfer, FileTransferState.Failed);
+        }
+    }
+
+    private static IsValidTransferId(transferId: any): boolean {
+        return typeof transferId === "string" && FileTransferManager.TransferIdPattern.test(transferId);
+    }
+
+    private static IsValidOffer(control: IFileControl): boolean {
+        return typeof control.Name === "string" &&
+            typeof control.Size === "number" && Number.isSafeInteger(control.Size) && control.Size >= 0 &&
+            typeof control.MimeType === "string" &&
+            typeof control.Hash === "string" && FileTransferManager.HashPattern.test(control.Hash);
+    }
+
+    private static async ComputeHash(file: Blob): Promise<string> {
+        const digest: ArrayBuffer = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+
+        let hex: string = "";
+        new Uint8Array(digest).forEach(value => hex += ("0" + value.toString(16)).slice(-2));
+        return hex;
+    }
+
+    private static EncodeTransferId(transferId: string): Uint8Array {
+        const encoded: Uint8Array = new Uint8Array(FileTransferManager.TransferIdLength);
+        for (let i = 0; i < FileTransferManager.TransferIdLength; i++) {
+            encoded[i] = transferId.charCodeAt(i);
+        }
+        return encoded;
+    }
+
+    private static DecodeTransferId(data: ArrayBuffer): string {
+        const encoded: Uint8Array = new Uint8Array(data, 0, Math.min(FileTransferManager.TransferIdLength, data.byteLength));
+        return String.fromCharCode.apply(null, Array.prototype.slice.call(encoded));
+    }
+}
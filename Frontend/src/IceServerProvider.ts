@@ -0,0 +1,97 @@
+import { ISessionConfig } from "./SessionConfig";
+
+export interface IIceServerProvider {
+    GetConfiguration(): RTCConfiguration;
+    Refresh(): Promise<void>;
+    OnRefreshed: OnRefreshedDelegate;
+}
+
+interface OnRefreshedDelegate {
+    (configuration: RTCConfiguration): void;
+}
+
+// The response format of the TURN REST API, as supported by coturn
+interface ITurnCredentials {
+    username: string;
+    password: string;
+    ttl: number;
+    uris: string[];
+}
+
+export class IceServerProvider implements IIceServerProvider {
+    private fetchedIceServers: RTCIceServer[] = [];
+    private refreshTimeout: number;
+
+    // Fetch new credentials before the current ones run out
+    private static readonly RefreshAtLifetimeFraction: number = 0.8;
+    // Don't hold up joining for long, the static servers are enough to get started
+    private static readonly FetchTimeout: number = 5000;
+
+    private readonly sessionConfig: ISessionConfig;
+
+    public OnRefreshed: OnRefreshedDelegate;
+
+    constructor(sessionConfig: ISessionConfig) {
+        this.sessionConfig = sessionConfig;
+    }
+
+    public GetConfiguration(): RTCConfiguration {
+        const configuration: RTCConfiguration = {};
+        configuration.iceServers = this.sessionConfig.IceServers.concat(this.fetchedIceServers);
+        configuration.iceTransportPolicy = this.sessionConfig.IceTransportPolicy;
+        return configuration;
+    }
+
+    public async Refresh(): Promise<void> {
+        if (this.sessionConfig.TurnCredentialsUrl.length == 0) {
+            return;
+        }
+
+        clearTimeout(this.refreshTimeout);
+
+        const abortController: AbortController = new AbortController();
+        const abortTimeout: number = window.setTimeout(() => abortController.abort(), IceServerProvider.FetchTimeout);
+
+        let credentials: ITurnCredentials;
+        try {
+            const response: Response = await fetch(this.sessionConfig.TurnCredentialsUrl, { signal: abortController.signal });
+            if (!response.ok) {
+                throw new Error("Status code " + response.status);
+            }
+            credentials = await response.json();
+            if (!IceServerProvider.IsValidCredentials(credentials)) {
+                throw new Error("Unexpected response " + JSON.stringify(credentials));
+            }
+        }
+        catch (err) {
+            // Keep using what we have, since it might still be valid
+            console.error("Unable to fetch TURN credentials: " + err);
+            this.refreshTimeout = window.setTimeout(() => this.Refresh(), 30000);
+            return;
+        }
+        finally {
+            clearTimeout(abortTimeout);
+        }
+
+        const iceServer: RTCIceServer = {
+            urls: credentials.uris,
+            username: credentials.username,
+            credential: credentials.password
+        };
+        this.fetchedIceServers = [iceServer];
+
+        if (this.OnRefreshed != null) {
+            this.OnRefreshed(this.GetConfiguration());
+        }
+
+        this.refreshTimeout = window.setTimeout(() => this.Refresh(), credentials.ttl * 1000 * IceServerProvider.RefreshAtLifetimeFraction);
+    }
+
+    private static IsValidCredentials(credentials: any): boolean {
+        return typeof credentials === "object" && credentials !== null &&
+            Array.isArray(credentials.uris) && credentials.uris.length > 0 && credentials.uris.every((uri: any) => typeof uri === "string") &&
+            typeof credentials.username === "string" &&
+            typeof credentials.password === "string" &&
+            typeof credentials.ttl === "number" && credentials.ttl > 0;
+    }
+}
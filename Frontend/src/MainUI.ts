@@ -1,6 +1,26 @@
 import { ChatApp } from "./ChatApp";
-import { IUserMediaSettings, IUserMediaSetting, UserMediaSettingsRange, UserSettingsSelection, UserMediaSettingType, IUserMedia } from "./UserMedia";
+import { IUserMediaSettings, IUserMediaSetting, UserMediaSettingsRange, UserSettingsSelection, IUserMedia } from "./UserMedia";
 import { ConnectionChangeType } from "./PeerConnector";
+import { BrokerState } from "./Broker";
+import { RecoveryState } from "./PeerRecovery";
+import { ChatMessage } from "./ChatMessage";
+import { FileTransfer, FileTransferDirection, FileTransferState } from "./FileTransfer";
+import { PeerStatistics } from "./ConnectionStatistics";
+import { RecordingState } from "./CallRecorder";
+import { SettingsStore } from "./SettingsStore";
+import { SettingsCodec } from "./SettingsCodec";
+import { SettingsSchema, SettingControl, SettingAddon } from "./SettingsSchema";
+import { NoiseSuppressorStatus } from "./NoiseSuppressor";
+import { TransmitMode } from "./TransmitGate";
+import { Profile, ProfileStore } from "./Profile";
+
+interface SettingControlFactory {
+    (settingKey: string, settingValue: IUserMediaSetting, paragraph: HTMLParagraphElement): void;
+}
+
+interface SettingAddonFactory {
+    (paragraph: HTMLParagraphElement): void;
+}
 
 class RemoteMedia {
     public Element: HTMLDivElement;
@@ -13,6 +33,31 @@ export class MainUI {
     private readonly joinSound: HTMLAudioElement;
     private readonly leaveSound: HTMLAudioElement;
     private remoteVideo: { [id: string]: RemoteMedia; } = {};
+    private signallingReconnecting: boolean = false;
+    // Where attendees have been placed on the room map, from -1 to 1 across and front to back
+    private roomPositions: { [id: string]: number[]; } = {};
+    private draggingClientId: string = null;
+    // The key picker which is waiting for a key to be pressed
+    private choosingKeySetting: string = null;
+    private isRecording: boolean = false;
+    private recordingClientIds: string[] = [];
+    // Used as a name until the attendee gives their own
+    private clientLocations: { [id: string]: string; } = {};
+    // Our own messages, so they can be marked as delivered when acknowledged
+    private sentChatMessages: { [id: string]: HTMLLIElement; } = {};
+
+    // Each setting is shown with the control it declares, so new settings don't need anything here
+    private readonly settingControlFactories: { [control: string]: SettingControlFactory; } = {
+        [SettingControl.Checkbox]: (key, setting, paragraph) => this.createCheckboxControl(key, setting, paragraph),
+        [SettingControl.Slider]: (key, setting, paragraph) => this.createSliderControl(key, setting, paragraph),
+        [SettingControl.Dropdown]: (key, setting, paragraph) => this.createDropdownControl(key, setting, paragraph),
+        [SettingControl.KeyPicker]: (key, setting, paragraph) => this.createKeyPickerControl(key, setting, paragraph)
+    };
+
+    private readonly settingAddonFactories: { [addon: string]: SettingAddonFactory; } = {
+        [SettingAddon.EqualiserCurve]: paragraph => this.createEqualiserCurve(paragraph),
+        [SettingAddon.NoiseProfile]: paragraph => this.createNoiseProfileControls(paragraph)
+    };
 
     constructor(chatApp: ChatApp, userMedia: IUserMedia) {
         this.chatApp = chatApp;
@@ -26,8 +71,19 @@ export class MainUI {
     }
 
     public initialise(): void {
+        this.shouldDrawVolumeHistogram = this.userMedia.GetSettings().AudioLocalMeter.Value;
         this.drawAudioVisualisations();
 
+        this.userMedia.AddSettingListener("AudioLocalMeter", change => {
+            this.shouldDrawVolumeHistogram = change.NewValue;
+            if (change.NewValue) {
+                this.drawAudioVisualisations();
+            }
+        });
+
+        this.userMedia.AddSettingListener("AudioSpatial", () => this.updateSpatialPositions());
+        this.userMedia.AddSettingListener("AudioSpatialLayout", () => this.updateSpatialPositions());
+
         function hideControls() {
             document.querySelectorAll(".controls").forEach(node => node.classList.add('faded'));
         }
@@ -47,37 +103,45 @@ export class MainUI {
             }
         });
 
+        window.addEventListener('pagehide', () => this.chatApp.Leave());
+
+        window.addEventListener('resize', () => this.updateSpatialPositions());
+
         window.onmousemove = () => ShowControls();
         window.ontouchstart = () => ShowControls();
 
         this.chatApp.OnMessage = (messageText, messageType) => this.logMessage(messageText, messageType);
 
+        this.chatApp.OnSignallingStateChanged = state => {
+            switch (state) {
+                case BrokerState.Reconnecting:
+                    this.signallingReconnecting = true;
+                    this.logMessage("⚠️ Signalling reconnecting…", "info");
+                    break;
+                case BrokerState.Connected:
+                    if (this.signallingReconnecting) {
+                        this.logMessage("✔️ Signalling reconnected", "success");
+                    }
+                    this.signallingReconnecting = false;
+                    break;
+                case BrokerState.Failed:
+                    // Failing to connect in the first place is reported by ChatApp
+                    if (this.signallingReconnecting) {
+                        this.logMessage("Lost connection to the signalling server. Existing calls will continue, but nobody new can join until it's back. Still trying…", "info");
+                    }
+                    break;
+            }
+        };
+
         if (window.location.search.startsWith('?')) {
             let settings: IUserMediaSettings = this.userMedia.GetSettings();
 
-            let search = window.location.search.substring(1).split('&');
-            for (let i = 0; i < search.length; i++) {
-                let parts = search[i].split('=').filter(decodeURIComponent);
-                let settingName = parts[0];
-                let settingValue = parts[1];
-
-                if (!settings.hasOwnProperty(settingName)) {
-                    continue;
-                }
-
-                let settingTypedValue;
-                try {
-                    settingTypedValue = this.parseStringToType(settingValue, typeof (settings[settingName].Value))
-                }
-                catch (err) {
-                    this.logMessage("Unable to parse value for setting " + settingName + ". Please ensure it is of the right type and try again.", "fatal");
-                    return;
-                }
-
-                settings[settingName].Value = settingTypedValue;
-            }
+            // Settings which can't be used are skipped, rather than stopping the call
+            SettingsCodec.DecodeQuery(settings, window.location.search)
+                .forEach(warning => this.logTextMessage("⚠️ " + warning, "info"));
 
-            this.applyNewSettings(settings);
+            // Only for this visit, so following a link doesn't change someone's saved settings
+            this.applyNewSettings(settings, false);
         }
 
         this.chatApp.OnRemoteStream = (clientId, mediaStream) => {
@@ -93,6 +157,17 @@ export class MainUI {
 
                 let video = document.createElement("video");
                 div.appendChild(video);
+
+                // Shown instead of the video while their camera is off
+                let avatarNode = document.createElement("div");
+                avatarNode.className = "avatar hidden";
+                div.appendChild(avatarNode);
+
+                let nameNode = document.createElement("div");
+                nameNode.className = "tileName";
+                div.appendChild(nameNode);
+
+                this.addFileDropTarget(div, clientId);
                 remoteMedia = new RemoteMedia();
                 remoteMedia.Element = div;
                 remoteMedia.Stream = mediaStream;
@@ -104,7 +179,19 @@ export class MainUI {
             video.muted = true;
             video.play();
 
+            remoteMedia.Stream = mediaStream;
+            let updateProfile = () => this.updateClientProfile(clientId);
+            mediaStream.onaddtrack = updateProfile;
+            mediaStream.onremovetrack = updateProfile;
+            mediaStream.getVideoTracks().forEach(track => {
+                track.onmute = updateProfile;
+                track.onunmute = updateProfile;
+                track.onended = updateProfile;
+            });
+            this.updateClientProfile(clientId);
+
             this.flowRemoteVideo();
+            this.updateActiveSpeaker(this.chatApp.GetActiveSpeaker());
         }
 
         this.chatApp.OnLocalStream = (mediaStream) => {
@@ -118,6 +205,11 @@ export class MainUI {
         document.querySelector("#attendeeList").appendChild(selfNode);
 
         this.chatApp.OnLocation = (clientId, location) => {
+            // The country isn't known for every address, and there's nothing to show without it
+            if (location.CountryCode == null) {
+                return;
+            }
+
             let clientNode = this.getClientNode(clientId);
             let labelNode = clientNode.querySelector('span.label');
             let locationNode: HTMLSpanElement = labelNode.querySelector('span.location');
@@ -138,8 +230,30 @@ export class MainUI {
                 labelNode.appendChild(locationNode);
             }
 
-            let nameNode = labelNode.querySelector('span.name');
-            nameNode.innerHTML = shortLocation;
+            this.clientLocations[clientId] = shortLocation;
+            this.updateClientProfile(clientId);
+        };
+
+        this.chatApp.OnProfileChanged = clientId => this.updateClientProfile(clientId);
+
+        this.chatApp.OnChatMessage = message => this.addChatMessage(message, false);
+
+        this.chatApp.OnChatMessageDelivered = (clientId, messageId) => {
+            if (!this.sentChatMessages.hasOwnProperty(messageId)) {
+                return;
+            }
+
+            let messageNode: HTMLLIElement = this.sentChatMessages[messageId];
+
+            let deliveredTo: string[] = messageNode.getAttribute("data-delivered-to").split(",").filter(id => id.length > 0);
+            if (deliveredTo.indexOf(clientId) < 0) {
+                deliveredTo.push(clientId);
+            }
+            messageNode.setAttribute("data-delivered-to", deliveredTo.join(","));
+
+            let deliveryNode: HTMLSpanElement = messageNode.querySelector('span.delivery');
+            deliveryNode.innerHTML = "✓ " + deliveredTo.length;
+            deliveryNode.title = "Delivered to " + deliveredTo.map(id => this.getClientName(id)).join(", ");
         };
 
         this.chatApp.OnConnectionChanged = (clientId, change) => {
@@ -161,6 +275,13 @@ export class MainUI {
                     case ConnectionChangeType.RTC:
                         statusNode.classList.add("rtc");
                         break;
+                    case ConnectionChangeType.Recovery:
+                        statusNode.classList.add("recovery");
+                        break;
+                    case ConnectionChangeType.Candidate:
+                        statusNode.classList.add("candidate");
+                        statusNode.title = "Local and remote ICE candidate types, relay means traffic goes through a TURN server";
+                        break;
                 }
 
                 statusNode.setAttribute("data-status-type", change.Type.toString());
@@ -169,14 +290,61 @@ export class MainUI {
 
             statusNode.innerHTML = change.State;
 
-            if ((change.Type == ConnectionChangeType.Ice && change.State == "failed") /* Firefox */ ||
-                (change.Type == ConnectionChangeType.Signal && change.State == "closed") /* Chrome */) {
-                this.clientDisconnected(clientId);
+            if (change.Type == ConnectionChangeType.Recovery) {
+                // The connection is only gone once recovery gives up on it, or they leave
+                if (change.State == RecoveryState.Failed || change.State == RecoveryState.Left) {
+                    this.clientDisconnected(clientId);
+                    return;
+                }
+
+                let isReconnecting = change.State != RecoveryState.Connected;
+                clientNode.classList.toggle("reconnecting", isReconnecting);
+                statusNode.innerHTML = isReconnecting ? "reconnecting (" + change.State + ")" : change.State;
             }
         }
 
+        this.chatApp.OnStatistics = (clientId, statistics) => this.updateStatistics(clientId, statistics);
+
+        this.chatApp.OnActiveSpeakerChanged = clientId => this.updateActiveSpeaker(clientId);
+
+        this.chatApp.OnAudioLevels = levels => {
+            for (let clientId in levels) {
+                let levelNode: HTMLSpanElement = document.querySelector('#attendeeList li[data-connection-id="' + clientId + '"] span.levelBar');
+                if (levelNode !== null) {
+                    levelNode.style.width = Math.round(levels[clientId] * 100) + "%";
+                }
+            }
+        };
+
+        this.userMedia.OnDevicesChanged = settings => this.refreshSelectSettings(settings);
+
+        this.userMedia.OnDeviceAdded = (settingKey, device) => {
+            let settings: IUserMediaSettings = this.userMedia.GetSettings();
+            let setting: UserSettingsSelection<string> = settings[settingKey];
+            let label = device.label.length > 0 ? device.label : "unnamed device";
+
+            let message = this.logMessage("🔌 " + setting.Name + " connected: <span class=\"device\"></span> <button>Switch</button>", "info");
+            message.querySelector('span.device').textContent = label;
+            message.querySelector('span > button').addEventListener('click', () => {
+                message.parentElement.removeChild(message);
+                setting.Value = device.deviceId;
+                this.applyNewSettings(settings);
+            });
+        };
+
+        this.userMedia.OnDeviceLost = (settingKey, device) => {
+            let settings: IUserMediaSettings = this.userMedia.GetSettings();
+            let setting: UserSettingsSelection<string> = settings[settingKey];
+            let label = device.label.length > 0 ? device.label : "unnamed device";
+
+            let message = this.logMessage("🔌 " + setting.Name + " disconnected: <span class=\"device\"></span>, switched to the default", "info");
+            message.querySelector('span.device').textContent = label;
+        };
+
         this.chatApp.Start();
 
+        this.createPresetControls(document.querySelector('#audioParameters'));
+
         let lastCategory;
         let settings: IUserMediaSettings = this.userMedia.GetSettings();
         for (let key in settings) {
@@ -205,6 +373,29 @@ export class MainUI {
             }
         }
 
+        this.bindPushToTalkKeys();
+        this.updateSettingVisibility(settings);
+        this.createOnAirIndicator();
+        this.createChatWindow();
+        this.createRoomWindow();
+        this.createRecordingWindow();
+        this.createProfileWindow();
+
+        // Files dropped anywhere other than a participant tile go to everyone
+        this.addFileDropTarget(document.body, null);
+
+        this.chatApp.OnFileTransferChanged = transfer => this.updateFileTransfer(transfer);
+
+        this.chatApp.OnFileReceived = (transfer, file) => {
+            let transferNode = this.getFileTransferNode(transfer);
+
+            let link = document.createElement("a");
+            link.href = URL.createObjectURL(file);
+            link.download = transfer.Name;
+            link.textContent = "Save";
+            transferNode.appendChild(link);
+        };
+
         document.querySelector('#audioControlsButton').addEventListener('click', () => {
             document.querySelector('#audioControls').classList.remove("hidden");
         });
@@ -249,11 +440,45 @@ export class MainUI {
             labelNode.className = "label";
             clientNode.appendChild(labelNode);
 
+            let avatarNode = document.createElement("span");
+            avatarNode.className = "avatar";
+            labelNode.appendChild(avatarNode);
+
             let nameNode = document.createElement("span");
             nameNode.innerHTML = clientId.substring(0, 6);
             nameNode.className = "name";
             labelNode.appendChild(nameNode);
 
+            let profileStatusNode = document.createElement("span");
+            profileStatusNode.className = "profileStatus hidden";
+            labelNode.appendChild(profileStatusNode);
+
+            let levelNode = document.createElement("span");
+            levelNode.className = "level";
+            levelNode.title = "How loud they are";
+            labelNode.appendChild(levelNode);
+
+            let levelBarNode = document.createElement("span");
+            levelBarNode.className = "levelBar";
+            levelNode.appendChild(levelBarNode);
+
+            let signalNode = document.createElement("button");
+            signalNode.className = "signal";
+            signalNode.innerHTML = "····";
+            signalNode.title = "Waiting for connection statistics";
+            clientNode.appendChild(signalNode);
+
+            clientNode.appendChild(this.createRemoteAudioControls(clientId));
+
+            let statisticsNode = document.createElement("div");
+            statisticsNode.className = "statistics hidden";
+            clientNode.appendChild(statisticsNode);
+
+            signalNode.onclick = () => {
+                statisticsNode.classList.toggle("hidden");
+                this.drawStatistics(clientId, statisticsNode);
+            };
+
             attendeeList.appendChild(clientNode);
 
             this.joinSound.play();
@@ -263,6 +488,425 @@ export class MainUI {
         return clientNode;
     }
 
+    // These only change what we hear, and are remembered if the attendee reconnects
+    public createRemoteAudioControls(clientId: string): HTMLDivElement {
+        let settings = this.userMedia.GetRemoteAudioSettings(clientId);
+
+        let controlsNode = document.createElement("div");
+        controlsNode.className = "remoteAudioControls";
+
+        let muteButton = document.createElement("button");
+        muteButton.className = "mute";
+        controlsNode.appendChild(muteButton);
+
+        let volumeInput = document.createElement("input");
+        volumeInput.type = "range";
+        volumeInput.className = "volume";
+        volumeInput.title = "Volume";
+        volumeInput.min = "0";
+        volumeInput.max = "2";
+        volumeInput.step = "0.05";
+        volumeInput.value = settings.Volume.toString();
+        volumeInput.oninput = () => this.userMedia.SetRemoteVolume(clientId, parseFloat(volumeInput.value));
+        controlsNode.appendChild(volumeInput);
+
+        let panInput = document.createElement("input");
+        panInput.type = "range";
+        panInput.className = "pan";
+        panInput.title = "Left/right balance, double click to centre";
+        panInput.min = "-1";
+        panInput.max = "1";
+        panInput.step = "0.1";
+        panInput.value = settings.Pan.toString();
+        panInput.oninput = () => this.userMedia.SetRemotePan(clientId, parseFloat(panInput.value));
+        panInput.ondblclick = () => {
+            panInput.value = "0";
+            this.userMedia.SetRemotePan(clientId, 0);
+        };
+        controlsNode.appendChild(panInput);
+
+        let updateMuteButton = (muted: boolean) => {
+            muteButton.innerHTML = muted ? "🔇" : "🔊";
+            muteButton.title = muted ? "Unmute for you" : "Mute for you";
+            volumeInput.disabled = muted;
+        };
+        updateMuteButton(settings.Muted);
+
+        muteButton.onclick = () => {
+            let muted = !this.userMedia.GetRemoteAudioSettings(clientId).Muted;
+            this.userMedia.SetRemoteMuted(clientId, muted);
+            updateMuteButton(muted);
+        };
+
+        return controlsNode;
+    }
+
+    // Their own name if they've given one, otherwise where they are, otherwise their ID
+    public updateClientProfile(clientId: string): void {
+        let profile: Profile = this.chatApp.GetRemoteProfile(clientId);
+        let name = clientId.substring(0, 6);
+        if (profile != null && profile.Name.length > 0) {
+            name = profile.Name;
+        }
+        else if (this.clientLocations.hasOwnProperty(clientId)) {
+            name = this.clientLocations[clientId];
+        }
+        let status = profile == null ? "" : profile.Status;
+
+        let labelNode = this.getClientNode(clientId).querySelector('span.label');
+        // Names and statuses come from other attendees, so never treat them as HTML
+        labelNode.querySelector('span.name').textContent = name;
+
+        let profileStatusNode = labelNode.querySelector('span.profileStatus');
+        profileStatusNode.textContent = status;
+        profileStatusNode.classList.toggle("hidden", status.length == 0);
+
+        this.drawAvatar(labelNode.querySelector('span.avatar'), profile, name);
+
+        if (this.remoteVideo.hasOwnProperty(clientId)) {
+            let remoteMedia = this.remoteVideo[clientId];
+            let tileNameNode = remoteMedia.Element.querySelector('div.tileName');
+            tileNameNode.textContent = name;
+            tileNameNode.setAttribute("title", status);
+
+            let hasVideo = remoteMedia.Stream.getVideoTracks().some(track => track.readyState == "live" && !track.muted);
+            let tileAvatarNode: HTMLElement = remoteMedia.Element.querySelector('div.avatar');
+            tileAvatarNode.classList.toggle("hidden", hasVideo);
+            remoteMedia.Element.classList.toggle("cameraOff", !hasVideo);
+            this.drawAvatar(tileAvatarNode, profile, name);
+        }
+
+        this.drawRoomMap();
+    }
+
+    // The uploaded image, or initials on their chosen colour
+    public drawAvatar(avatarNode: HTMLElement, profile: Profile, name: string): void {
+        avatarNode.innerHTML = "";
+
+        if (profile != null && profile.AvatarImage != null) {
+            let image = document.createElement("img");
+            image.src = profile.AvatarImage;
+            image.alt = name;
+            avatarNode.appendChild(image);
+            avatarNode.style.backgroundColor = "";
+            return;
+        }
+
+        avatarNode.textContent = ProfileStore.GetInitials(name);
+        avatarNode.style.backgroundColor = profile != null && profile.AvatarColour != null ? profile.AvatarColour : "gray";
+    }
+
+    public getClientName(clientId: string): string {
+        let nameNode: HTMLSpanElement = document.querySelector('#attendeeList li[data-connection-id="' + clientId + '"] span.name');
+        return nameNode === null ? clientId.substring(0, 6) : nameNode.textContent;
+    }
+
+    public updateActiveSpeaker(activeClientId: string): void {
+        for (let clientId in this.remoteVideo) {
+            this.remoteVideo[clientId].Element.classList.toggle("activeSpeaker", clientId == activeClientId);
+        }
+
+        document.querySelectorAll('#attendeeList li[data-connection-id]').forEach(clientNode => {
+            clientNode.classList.toggle("activeSpeaker", clientNode.getAttribute("data-connection-id") == activeClientId);
+        });
+    }
+
+    public updateStatistics(clientId: string, statistics: PeerStatistics): void {
+        // Don't use getClientNode, statistics can arrive for someone who just left
+        let clientNode: HTMLLIElement = document.querySelector('#attendeeList li[data-connection-id="' + clientId + '"]');
+        if (clientNode === null) {
+            return;
+        }
+
+        const strengthNames: string[] = ["unusable", "poor", "fair", "good", "excellent"];
+
+        let signalNode: HTMLButtonElement = clientNode.querySelector('button.signal');
+        signalNode.innerHTML = "▂▄▆█".split("").map((bar, index) => index < statistics.SignalStrength ? bar : "·").join("");
+        signalNode.setAttribute("data-strength", statistics.SignalStrength.toString());
+        signalNode.title = "Connection " + strengthNames[statistics.SignalStrength] + ", click for details";
+
+        let statisticsNode: HTMLDivElement = clientNode.querySelector('div.statistics');
+        this.drawStatistics(clientId, statisticsNode);
+    }
+
+    public drawStatistics(clientId: string, statisticsNode: HTMLDivElement): void {
+        if (statisticsNode.classList.contains("hidden")) {
+            return;
+        }
+
+        const history: PeerStatistics[] = this.chatApp.GetStatisticsHistory(clientId);
+        if (history.length == 0) {
+            statisticsNode.textContent = "Waiting for connection statistics";
+            return;
+        }
+
+        const latest: PeerStatistics = history[history.length - 1];
+
+        const formatBitrate = (bitrate: number) => bitrate >= 1000000 ? (bitrate / 1000000).toFixed(1) + " Mbps" : Math.round(bitrate / 1000) + " kbps";
+        const formatSeconds = (seconds: number) => seconds == null ? "unknown" : Math.round(seconds * 1000) + " ms";
+
+        const rows: [string, string, number[]][] = [
+            ["Receiving", formatBitrate(latest.InboundBitrate), history.map(sample => sample.InboundBitrate)],
+            ["Sending", formatBitrate(latest.OutboundBitrate), history.map(sample => sample.OutboundBitrate)],
+            ["Round trip", formatSeconds(latest.RoundTripTime), history.map(sample => sample.RoundTripTime || 0)],
+            ["Packet loss", (latest.PacketLoss * 100).toFixed(1) + "%", history.map(sample => sample.PacketLoss)],
+            ["Jitter", formatSeconds(latest.Jitter), history.map(sample => sample.Jitter)],
+            ["Video", latest.FrameWidth == null ? "none" : latest.FrameWidth + "×" + latest.FrameHeight + " @ " + Math.round(latest.FramesPerSecond || 0) + " fps", null],
+            ["Codecs", [latest.AudioCodec, latest.VideoCodec].filter(codec => codec != null).join(", ") || "unknown", null],
+            ["Route", latest.LocalCandidateType == null ? "unknown" : latest.LocalCandidateType + " ↔ " + latest.RemoteCandidateType, null],
+            ["Limited by", latest.QualityLimitationReason || "nothing", null]
+        ];
+
+        let table: HTMLTableElement = statisticsNode.querySelector('table');
+        if (table === null) {
+            statisticsNode.innerHTML = "";
+            table = document.createElement("table");
+            statisticsNode.appendChild(table);
+
+            rows.forEach(row => {
+                let tableRow = table.insertRow();
+                tableRow.insertCell().textContent = row[0];
+                tableRow.insertCell();
+
+                let sparklineCell = tableRow.insertCell();
+                if (row[2] != null) {
+                    let canvas = document.createElement("canvas");
+                    canvas.width = 80;
+                    canvas.height = 16;
+                    sparklineCell.appendChild(canvas);
+                }
+            });
+        }
+
+        rows.forEach((row, index) => {
+            let tableRow = table.rows[index];
+            tableRow.cells[1].textContent = row[1];
+
+            let canvas = tableRow.cells[2].querySelector('canvas');
+            if (canvas !== null) {
+                this.drawSparkline(canvas, row[2]);
+            }
+        });
+    }
+
+    public drawSparkline(canvas: HTMLCanvasElement, values: number[]): void {
+        let context = canvas.getContext("2d");
+        context.clearRect(0, 0, canvas.width, canvas.height);
+
+        const max: number = Math.max.apply(null, values);
+        if (values.length < 2 || max <= 0) {
+            return;
+        }
+
+        const step: number = canvas.width / (values.length - 1);
+
+        context.strokeStyle = "rgba(255, 255, 255, 0.8)";
+        context.lineWidth = 1;
+        context.beginPath();
+        for (let i = 0; i < values.length; i++) {
+            const y: number = canvas.height - (values[i] / max) * (canvas.height - 1);
+            if (i == 0) {
+                context.moveTo(0, y);
+            }
+            else {
+                context.lineTo(i * step, y);
+            }
+        }
+        context.stroke();
+    }
+
+    public createChatWindow(): void {
+        // The chat window sits alongside the attendee window and borrows its styling
+        let attendeeWindow = document.querySelector('#attendeeWindow');
+        let attendeeWindowButton = document.querySelector('#attendeeWindowButton');
+
+        let chatWindow = document.createElement("div");
+        chatWindow.id = "chatWindow";
+        chatWindow.className = attendeeWindow.className;
+        chatWindow.classList.add("hidden");
+        attendeeWindow.insertAdjacentElement("afterend", chatWindow);
+
+        let closeButton = document.createElement("button");
+        closeButton.className = "closeButton";
+        closeButton.innerHTML = "✕";
+        chatWindow.appendChild(closeButton);
+
+        let title = document.createElement("h1");
+        title.innerHTML = "💬 Chat";
+        chatWindow.appendChild(title);
+
+        let messageList = document.createElement("ul");
+        messageList.id = "chatMessages";
+        chatWindow.appendChild(messageList);
+
+        let form = document.createElement("form");
+        chatWindow.appendChild(form);
+
+        let input = document.createElement("input");
+        input.id = "chatInput";
+        input.type = "text";
+        input.placeholder = "Type a message";
+        input.autocomplete = "off";
+        form.appendChild(input);
+
+        let sendButton = document.createElement("button");
+        sendButton.type = "submit";
+        sendButton.innerHTML = "Send";
+        form.appendChild(sendButton);
+
+        form.onsubmit = (event) => {
+            event.preventDefault();
+
+            let text = input.value.trim();
+            if (text.length == 0) {
+                return;
+            }
+
+            let message = this.chatApp.SendChatMessage(text);
+            if (message != null) {
+                this.addChatMessage(message, true);
+                input.value = "";
+            }
+        };
+
+        let chatWindowButton = <HTMLElement>attendeeWindowButton.cloneNode(false);
+        chatWindowButton.id = "chatWindowButton";
+        chatWindowButton.innerHTML = "💬 Chat";
+        attendeeWindowButton.insertAdjacentElement("afterend", chatWindowButton);
+
+        chatWindowButton.addEventListener('click', () => {
+            chatWindowButton.classList.remove("unread");
+            chatWindow.classList.remove("hidden");
+            input.focus();
+        });
+    }
+
+    public addChatMessage(message: ChatMessage, isLocal: boolean): void {
+        let messageList = document.querySelector('#chatMessages');
+
+        let messageNode = document.createElement("li");
+        messageNode.setAttribute("data-message-id", message.MessageId);
+        messageNode.setAttribute("data-delivered-to", "");
+        messageNode.className = isLocal ? "localChatMessage" : "remoteChatMessage";
+        if (isLocal) {
+            this.sentChatMessages[message.MessageId] = messageNode;
+        }
+
+        let senderNode = document.createElement("span");
+        senderNode.className = "sender";
+        senderNode.textContent = isLocal ? "You" : this.getClientName(message.FromId);
+        messageNode.appendChild(senderNode);
+
+        let timeNode = document.createElement("span");
+        timeNode.className = "time";
+        timeNode.textContent = new Date(message.Timestamp).toLocaleTimeString();
+        messageNode.appendChild(timeNode);
+
+        // Message text comes from other attendees, so never treat it as HTML
+        let textNode = document.createElement("span");
+        textNode.className = "text";
+        textNode.textContent = message.Text;
+        messageNode.appendChild(textNode);
+
+        if (isLocal) {
+            let deliveryNode = document.createElement("span");
+            deliveryNode.className = "delivery";
+            deliveryNode.innerHTML = "…";
+            deliveryNode.title = "Not yet delivered";
+            messageNode.appendChild(deliveryNode);
+        }
+
+        messageList.appendChild(messageNode);
+        messageList.scrollTop = messageList.scrollHeight;
+
+        if (!isLocal && document.querySelector('#chatWindow').classList.contains("hidden")) {
+            document.querySelector('#chatWindowButton').classList.add("unread");
+        }
+    }
+
+    public addFileDropTarget(element: HTMLElement, clientId: string): void {
+        element.addEventListener('dragover', event => {
+            event.preventDefault();
+            event.stopPropagation();
+            element.classList.add("dropTarget");
+        });
+
+        element.addEventListener('dragleave', () => element.classList.remove("dropTarget"));
+
+        element.addEventListener('drop', event => {
+            event.preventDefault();
+            event.stopPropagation();
+            element.classList.remove("dropTarget");
+
+            for (let i = 0; i < event.dataTransfer.files.length; i++) {
+                let file: File = event.dataTransfer.files[i];
+                this.chatApp.SendFile(file, clientId).catch(err => this.logTextMessage("Unable to send " + file.name + ": " + err.message, "info"));
+            }
+        });
+    }
+
+    public getFileTransferNode(transfer: FileTransfer): HTMLLIElement {
+        let messageList = document.querySelector('#chatMessages');
+
+        let transferNode: HTMLLIElement = messageList.querySelector('li[data-transfer-id="' + transfer.TransferId + '"]');
+        if (transferNode === null) {
+            let isOutgoing = transfer.Direction == FileTransferDirection.Outgoing;
+
+            transferNode = document.createElement("li");
+            transferNode.setAttribute("data-transfer-id", transfer.TransferId);
+            transferNode.className = (isOutgoing ? "localChatMessage" : "remoteChatMessage") + " fileTransfer";
+
+            let senderNode = document.createElement("span");
+            senderNode.className = "sender";
+            senderNode.textContent = isOutgoing ? "You → " + this.getClientName(transfer.ClientId) : this.getClientName(transfer.ClientId);
+            transferNode.appendChild(senderNode);
+
+            let nameNode = document.createElement("span");
+            nameNode.className = "text";
+            nameNode.textContent = transfer.Name;
+            transferNode.appendChild(nameNode);
+
+            let progress = document.createElement("progress");
+            progress.max = transfer.Size;
+            transferNode.appendChild(progress);
+
+            let stateNode = document.createElement("span");
+            stateNode.className = "state";
+            transferNode.appendChild(stateNode);
+
+            let cancelButton = document.createElement("button");
+            cancelButton.className = "cancel";
+            cancelButton.innerHTML = "Cancel";
+            cancelButton.onclick = () => this.chatApp.CancelFileTransfer(transfer.TransferId);
+            transferNode.appendChild(cancelButton);
+
+            messageList.appendChild(transferNode);
+            messageList.scrollTop = messageList.scrollHeight;
+
+            if (document.querySelector('#chatWindow').classList.contains("hidden")) {
+                document.querySelector('#chatWindowButton').classList.add("unread");
+            }
+        }
+
+        return transferNode;
+    }
+
+    public updateFileTransfer(transfer: FileTransfer): void {
+        let transferNode = this.getFileTransferNode(transfer);
+
+        transferNode.querySelector('progress').value = transfer.BytesTransferred;
+        transferNode.querySelector('span.state').textContent = transfer.State;
+
+        let isFinished = transfer.State == FileTransferState.Complete ||
+            transfer.State == FileTransferState.Failed ||
+            transfer.State == FileTransferState.Cancelled;
+
+        let cancelButton: HTMLButtonElement = transferNode.querySelector('button.cancel');
+        if (isFinished && cancelButton !== null) {
+            transferNode.removeChild(cancelButton);
+        }
+    }
+
     public clientDisconnected(clientId: string): void {
         let clientNode = this.getClientNode(clientId);
         clientNode.parentElement.removeChild(clientNode);
@@ -270,14 +914,19 @@ export class MainUI {
         if (this.remoteVideo.hasOwnProperty(clientId)) {
             let remoteMedia = this.remoteVideo[clientId];
             remoteMedia.Element.parentElement.removeChild(remoteMedia.Element);
+            delete this.remoteVideo[clientId];
+            this.flowRemoteVideo();
         }
 
         this.userMedia.RemoveRemoteStream(clientId);
 
+        this.recordingClientIds = this.recordingClientIds.filter(id => id != clientId);
+        this.updateRecordingIndicator();
+
         this.leaveSound.play();
     }
 
-    public logMessage(messageText: string, messageType: string) {
+    public logMessage(messageText: string, messageType: string): HTMLDivElement {
         let timeoutHandle: number;
         if (messageType != "fatal") {
             timeoutHandle = setTimeout(() => {
@@ -304,6 +953,14 @@ export class MainUI {
         container.appendChild(message);
 
         list.appendChild(container);
+        return container;
+    }
+
+    // For anything which might have come from someone else, so it's never treated as HTML
+    public logTextMessage(messageText: string, messageType: string): HTMLDivElement {
+        let container = this.logMessage("", messageType);
+        container.querySelector('span').textContent = messageText;
+        return container;
     }
 
     public flowRemoteVideo() {
@@ -326,6 +983,595 @@ export class MainUI {
                 currentRow++;
             }
         }
+
+        this.updateSpatialPositions();
+    }
+
+    // Voices come from where each attendee appears, either on screen or on the room map
+    public updateSpatialPositions(): void {
+        let settings: IUserMediaSettings = this.userMedia.GetSettings();
+        this.drawRoomMap();
+
+        if (!settings.AudioSpatial.Value) {
+            return;
+        }
+
+        if (settings.AudioSpatialLayout.Value == "Room Map") {
+            for (let clientId in this.remoteVideo) {
+                let position = this.getRoomPosition(clientId);
+                this.userMedia.SetRemotePosition(clientId, position[0], position[1]);
+            }
+            return;
+        }
+
+        let container = document.querySelector('#remoteVideo').getBoundingClientRect();
+        if (container.width == 0 || container.height == 0) {
+            return;
+        }
+
+        for (let clientId in this.remoteVideo) {
+            let tile = this.remoteVideo[clientId].Element.getBoundingClientRect();
+            let x = ((tile.left + tile.width / 2) - (container.left + container.width / 2)) / (container.width / 2);
+
+            // Everyone on screen is in front, with the top row furthest away
+            let fromTop = ((tile.top + tile.height / 2) - container.top) / container.height;
+            let y = 1 - fromTop * 0.7;
+
+            this.userMedia.SetRemotePosition(clientId, x, y);
+        }
+    }
+
+    public getRoomPosition(clientId: string): number[] {
+        if (!this.roomPositions.hasOwnProperty(clientId)) {
+            // Spread newcomers out in an arc in front of us
+            const offsets = [0, -1, 1, -2, 2, -3, 3];
+            const angle = offsets[Object.keys(this.roomPositions).length % offsets.length] * Math.PI / 6;
+            this.roomPositions[clientId] = [Math.sin(angle) * 0.7, Math.cos(angle) * 0.7];
+        }
+
+        return this.roomPositions[clientId];
+    }
+
+    // The key itself is chosen with the AudioPushToTalkKey setting's key picker
+    public bindPushToTalkKeys(): void {
+        window.addEventListener('keydown', event => this.pushToTalkKeyChanged(event, true));
+        window.addEventListener('keyup', event => this.pushToTalkKeyChanged(event, false));
+
+        // We never see the key go up if it's let go of in another window
+        window.addEventListener('blur', () => this.userMedia.SetPushToTalk(false));
+    }
+
+    public pushToTalkKeyChanged(event: KeyboardEvent, isPressed: boolean): void {
+        // The key which was just chosen shouldn't also start talking
+        let settings = this.userMedia.GetSettings();
+        if (this.choosingKeySetting != null || event.defaultPrevented || settings.AudioTransmitMode.Value != TransmitMode.PushToTalk || event.code != settings.AudioPushToTalkKey.Value) {
+            return;
+        }
+
+        // Don't get in the way of typing, for example in the chat, or of pressing buttons
+        let target = <HTMLElement>event.target;
+        if (target.tagName == "INPUT" || target.tagName == "TEXTAREA" || target.tagName == "SELECT" || target.tagName == "BUTTON" || target.isContentEditable) {
+            return;
+        }
+
+        event.preventDefault();
+        this.userMedia.SetPushToTalk(isPressed);
+    }
+
+    public createOnAirIndicator(): void {
+        let localVideo = document.querySelector('#localVideo');
+
+        let indicator = document.createElement("div");
+        indicator.id = "onAirIndicator";
+        indicator.innerHTML = "🎙️ On Air";
+        localVideo.insertAdjacentElement("afterend", indicator);
+
+        let updateIndicator = (isTransmitting: boolean) => {
+            indicator.classList.toggle("onAir", isTransmitting);
+            indicator.innerHTML = isTransmitting ? "🎙️ On Air" : "🔇 Off Air";
+            indicator.title = isTransmitting ? "The other attendees can hear you" : "The other attendees can't hear you";
+        };
+
+        this.userMedia.OnTransmittingChanged = updateIndicator;
+        updateIndicator(this.userMedia.IsTransmitting());
+    }
+
+    public createNoiseProfileControls(paragraph: HTMLParagraphElement): void {
+        paragraph.title = "Stay quiet while it listens to your background noise for a couple of seconds, so it knows exactly what to remove";
+
+        let button = document.createElement("button");
+        button.id = "learnNoiseProfileButton";
+        button.innerHTML = "🎓 Learn Noise Profile";
+        button.onclick = () => this.userMedia.LearnNoiseProfile();
+        paragraph.appendChild(button);
+
+        let status = document.createElement("span");
+        status.id = "noiseSuppressorStatus";
+        paragraph.appendChild(status);
+
+        let updateStatus = (noiseSuppressorStatus: NoiseSuppressorStatus) => {
+            button.disabled = !noiseSuppressorStatus.IsSupported || noiseSuppressorStatus.IsLearning;
+
+            if (!noiseSuppressorStatus.IsSupported) {
+                status.textContent = "Not supported by your web browser";
+            }
+            else if (noiseSuppressorStatus.IsLearning) {
+                status.textContent = "Listening, stay quiet…";
+            }
+            else {
+                let profile = noiseSuppressorStatus.HasProfile ? "Using learned noise profile" : "Detecting noise automatically";
+                status.textContent = profile + ", CPU " + (noiseSuppressorStatus.CpuUsage * 100).toFixed(1) + "%";
+            }
+        };
+
+        this.userMedia.OnNoiseSuppressorStatusChanged = updateStatus;
+        updateStatus(this.userMedia.GetNoiseSuppressorStatus());
+    }
+
+    public createRoomWindow(): void {
+        // Borrows the attendee window's styling, like the chat window
+        let attendeeWindow = document.querySelector('#attendeeWindow');
+        let attendeeWindowButton = document.querySelector('#attendeeWindowButton');
+
+        let roomWindow = document.createElement("div");
+        roomWindow.id = "roomWindow";
+        roomWindow.className = attendeeWindow.className;
+        roomWindow.classList.add("hidden");
+        attendeeWindow.insertAdjacentElement("afterend", roomWindow);
+
+        let closeButton = document.createElement("button");
+        closeButton.className = "closeButton";
+        closeButton.innerHTML = "✕";
+        roomWindow.appendChild(closeButton);
+
+        let title = document.createElement("h1");
+        title.innerHTML = "🗺️ Room";
+        roomWindow.appendChild(title);
+
+        let canvas = document.createElement("canvas");
+        canvas.id = "roomMapCanvas";
+        canvas.width = 300;
+        canvas.height = 300;
+        roomWindow.appendChild(canvas);
+
+        let toRoomPosition = (event: PointerEvent) => {
+            let bounds = canvas.getBoundingClientRect();
+            let x = ((event.clientX - bounds.left) / bounds.width) * 2 - 1;
+            let y = 1 - ((event.clientY - bounds.top) / bounds.height) * 2;
+            return [Math.max(-1, Math.min(1, x)), Math.max(-1, Math.min(1, y))];
+        };
+
+        canvas.onpointerdown = event => {
+            let position = toRoomPosition(event);
+            for (let clientId in this.remoteVideo) {
+                let roomPosition = this.getRoomPosition(clientId);
+                if (Math.abs(roomPosition[0] - position[0]) < 0.1 && Math.abs(roomPosition[1] - position[1]) < 0.1) {
+                    this.draggingClientId = clientId;
+                    canvas.setPointerCapture(event.pointerId);
+                    break;
+                }
+            }
+        };
+
+        canvas.onpointermove = event => {
+            if (this.draggingClientId != null) {
+                this.roomPositions[this.draggingClientId] = toRoomPosition(event);
+                this.updateSpatialPositions();
+            }
+        };
+
+        canvas.onpointerup = () => this.draggingClientId = null;
+
+        let roomWindowButton = <HTMLElement>attendeeWindowButton.cloneNode(false);
+        roomWindowButton.id = "roomWindowButton";
+        roomWindowButton.innerHTML = "🗺️ Room";
+        attendeeWindowButton.insertAdjacentElement("afterend", roomWindowButton);
+
+        roomWindowButton.addEventListener('click', () => {
+            roomWindow.classList.remove("hidden");
+            this.drawRoomMap();
+        });
+    }
+
+    public createProfileWindow(): void {
+        let attendeeWindow = document.querySelector('#attendeeWindow');
+        let attendeeWindowButton = document.querySelector('#attendeeWindowButton');
+
+        let profileWindow = document.createElement("div");
+        profileWindow.id = "profileWindow";
+        profileWindow.className = attendeeWindow.className;
+        profileWindow.classList.add("hidden");
+        attendeeWindow.insertAdjacentElement("afterend", profileWindow);
+
+        let closeButton = document.createElement("button");
+        closeButton.className = "closeButton";
+        closeButton.innerHTML = "✕";
+        profileWindow.appendChild(closeButton);
+
+        let title = document.createElement("h1");
+        title.innerHTML = "👤 Profile";
+        profileWindow.appendChild(title);
+
+        let avatarNode = document.createElement("div");
+        avatarNode.className = "avatar";
+        profileWindow.appendChild(avatarNode);
+
+        let createTextInput = (name: string, description: string, maxLength: number) => {
+            let paragraph = document.createElement("p");
+            paragraph.title = description;
+            profileWindow.appendChild(paragraph);
+
+            let input = document.createElement("input");
+            input.type = "text";
+            input.id = "profile" + name.replace(/\s/g, "");
+            input.maxLength = maxLength;
+
+            let label = document.createElement("label");
+            label.innerHTML = name;
+            label.classList.add("helptext");
+            label.setAttribute("for", input.id);
+            paragraph.appendChild(label);
+            paragraph.appendChild(input);
+            return input;
+        };
+
+        let nameInput = createTextInput("Display Name", "What the other attendees see you as", ProfileStore.MaxNameLength);
+        let statusInput = createTextInput("Status", "An optional line shown under your name, for example what you're working on", ProfileStore.MaxStatusLength);
+
+        let avatarParagraph = document.createElement("p");
+        avatarParagraph.title = "Shown when your camera is off. Images are shrunk before being sent.";
+        profileWindow.appendChild(avatarParagraph);
+
+        let imageInput = document.createElement("input");
+        imageInput.type = "file";
+        imageInput.accept = "image/*";
+        imageInput.classList.add("hidden");
+        avatarParagraph.appendChild(imageInput);
+
+        let chooseImageButton = document.createElement("button");
+        chooseImageButton.innerHTML = "🖼️ Choose Image";
+        chooseImageButton.onclick = () => imageInput.click();
+        avatarParagraph.appendChild(chooseImageButton);
+
+        let removeImageButton = document.createElement("button");
+        removeImageButton.innerHTML = "Use Initials";
+        avatarParagraph.appendChild(removeImageButton);
+
+        let colourInput = document.createElement("input");
+        colourInput.type = "color";
+        colourInput.title = "The colour behind your initials";
+        avatarParagraph.appendChild(colourInput);
+
+        let refresh = () => {
+            let profile: Profile = this.chatApp.GetProfile();
+            nameInput.value = profile.Name;
+            statusInput.value = profile.Status;
+            colourInput.value = profile.AvatarColour;
+            removeImageButton.disabled = profile.AvatarImage == null;
+            this.drawAvatar(avatarNode, profile, profile.Name.length > 0 ? profile.Name : "You");
+        };
+
+        let update = (change: (profile: Profile) => void) => {
+            let profile: Profile = this.chatApp.GetProfile();
+            change(profile);
+            this.chatApp.SetProfile(profile);
+            refresh();
+        };
+
+        // Only sent once they've finished typing, rather than on every key
+        nameInput.onchange = () => update(profile => profile.Name = nameInput.value);
+        statusInput.onchange = () => update(profile => profile.Status = statusInput.value);
+        colourInput.onchange = () => update(profile => profile.AvatarColour = colourInput.value);
+        removeImageButton.onclick = () => update(profile => profile.AvatarImage = null);
+
+        imageInput.onchange = async () => {
+            if (imageInput.files.length == 0) {
+                return;
+            }
+
+            try {
+                let image = await ProfileStore.CreateAvatarImage(imageInput.files[0]);
+                update(profile => profile.AvatarImage = image);
+            }
+            catch (err) {
+                console.error(err);
+                this.logTextMessage("Unable to use that image: " + err.message, "info");
+            }
+
+            imageInput.value = "";
+        };
+
+        refresh();
+
+        let profileWindowButton = <HTMLElement>attendeeWindowButton.cloneNode(false);
+        profileWindowButton.id = "profileWindowButton";
+        profileWindowButton.innerHTML = "👤 Profile";
+        attendeeWindowButton.insertAdjacentElement("afterend", profileWindowButton);
+
+        profileWindowButton.addEventListener('click', () => {
+            profileWindow.classList.remove("hidden");
+        });
+    }
+
+    public createRecordingWindow(): void {
+        let attendeeWindow = document.querySelector('#attendeeWindow');
+        let attendeeWindowButton = document.querySelector('#attendeeWindowButton');
+
+        let recordingWindow = document.createElement("div");
+        recordingWindow.id = "recordingWindow";
+        recordingWindow.className = attendeeWindow.className;
+        recordingWindow.classList.add("hidden");
+        attendeeWindow.insertAdjacentElement("afterend", recordingWindow);
+
+        let closeButton = document.createElement("button");
+        closeButton.className = "closeButton";
+        closeButton.innerHTML = "✕";
+        recordingWindow.appendChild(closeButton);
+
+        let title = document.createElement("h1");
+        title.innerHTML = "⏺️ Recording";
+        recordingWindow.appendChild(title);
+
+        if (!this.chatApp.CanRecord()) {
+            let unsupported = document.createElement("p");
+            unsupported.innerHTML = "Your web browser doesn't support recording.";
+            recordingWindow.appendChild(unsupported);
+        }
+
+        let separateParagraph = document.createElement("p");
+        separateParagraph.title = "Also save each attendee to a file of their own, which makes editing easier";
+        recordingWindow.appendChild(separateParagraph);
+
+        let separateInput = document.createElement("input");
+        separateInput.type = "checkbox";
+        separateInput.id = "recordingSeparateTracks";
+        separateParagraph.appendChild(separateInput);
+
+        let separateLabel = document.createElement("label");
+        separateLabel.innerHTML = "Separate track per attendee";
+        separateLabel.classList.add("helptext");
+        separateLabel.setAttribute("for", separateInput.id);
+        separateParagraph.appendChild(separateLabel);
+
+        let startButton = document.createElement("button");
+        startButton.innerHTML = "⏺️ Start";
+        startButton.disabled = !this.chatApp.CanRecord();
+        recordingWindow.appendChild(startButton);
+
+        let pauseButton = document.createElement("button");
+        pauseButton.innerHTML = "⏸️ Pause";
+        pauseButton.disabled = true;
+        recordingWindow.appendChild(pauseButton);
+
+        let stopButton = document.createElement("button");
+        stopButton.innerHTML = "⏹️ Stop";
+        stopButton.disabled = true;
+        recordingWindow.appendChild(stopButton);
+
+        let recordingList = document.createElement("ul");
+        recordingList.id = "recordingList";
+        recordingWindow.appendChild(recordingList);
+
+        startButton.onclick = () => this.chatApp.StartRecording(separateInput.checked);
+        stopButton.onclick = () => this.chatApp.StopRecording();
+        pauseButton.onclick = () => {
+            if (pauseButton.getAttribute("data-paused") == "true") {
+                this.chatApp.ResumeRecording();
+            }
+            else {
+                this.chatApp.PauseRecording();
+            }
+        };
+
+        let recordingWindowButton = <HTMLElement>attendeeWindowButton.cloneNode(false);
+        recordingWindowButton.id = "recordingWindowButton";
+        recordingWindowButton.innerHTML = "⏺️ Record";
+        attendeeWindowButton.insertAdjacentElement("afterend", recordingWindowButton);
+
+        recordingWindowButton.addEventListener('click', () => {
+            recordingWindow.classList.remove("hidden");
+        });
+
+        // Everyone is told about a recording, so this shows whoever is recording
+        let indicator = document.createElement("div");
+        indicator.id = "recordingIndicator";
+        indicator.className = "hidden";
+        indicator.innerHTML = "🔴 REC";
+        document.body.appendChild(indicator);
+
+        this.chatApp.OnNeedVideoElements = () => {
+            let videos: HTMLVideoElement[] = [];
+            for (let clientId in this.remoteVideo) {
+                videos.push(<HTMLVideoElement>this.remoteVideo[clientId].Element.children[0]);
+            }
+            videos.push(document.querySelector<HTMLVideoElement>('#localVideo'));
+            return videos;
+        };
+
+        this.chatApp.OnRecordingStateChanged = state => {
+            this.isRecording = state != RecordingState.Inactive;
+            startButton.disabled = this.isRecording;
+            stopButton.disabled = !this.isRecording;
+            pauseButton.disabled = !this.isRecording;
+            pauseButton.setAttribute("data-paused", (state == RecordingState.Paused).toString());
+            pauseButton.innerHTML = state == RecordingState.Paused ? "▶️ Resume" : "⏸️ Pause";
+            separateInput.disabled = this.isRecording;
+            this.updateRecordingIndicator();
+        };
+
+        this.chatApp.OnRecordingsAvailable = recordings => {
+            recordings.forEach(recording => {
+                let recordingNode = document.createElement("li");
+
+                let link = document.createElement("a");
+                link.href = URL.createObjectURL(recording.File);
+                link.download = recording.Name;
+                link.textContent = recording.Name;
+                recordingNode.appendChild(link);
+
+                let size = document.createElement("span");
+                size.className = "size";
+                size.textContent = " (" + (recording.File.size / 1024 / 1024).toFixed(1) + " MB)";
+                recordingNode.appendChild(size);
+
+                recordingList.appendChild(recordingNode);
+            });
+
+            this.logMessage("⏺️ Recording saved, download it from the recording window", "success");
+        };
+
+        this.chatApp.OnRemoteRecordingChanged = (clientId, isRecording) => {
+            this.recordingClientIds = this.recordingClientIds.filter(id => id != clientId);
+            if (isRecording) {
+                this.recordingClientIds.push(clientId);
+                this.logTextMessage("🔴 " + this.getClientName(clientId) + " started recording", "info");
+            }
+
+            this.getClientNode(clientId).classList.toggle("recording", isRecording);
+            this.updateRecordingIndicator();
+        };
+    }
+
+    public updateRecordingIndicator(): void {
+        let indicator = document.querySelector('#recordingIndicator');
+        if (indicator === null) {
+            return;
+        }
+
+        let names = this.recordingClientIds.map(clientId => this.getClientName(clientId));
+        if (this.isRecording) {
+            names.unshift("You");
+        }
+
+        indicator.classList.toggle("hidden", names.length == 0);
+        indicator.setAttribute("title", "Being recorded by " + names.join(", "));
+    }
+
+    public drawRoomMap(): void {
+        let canvas = <HTMLCanvasElement>document.getElementById("roomMapCanvas");
+        if (canvas === null || canvas.parentElement.classList.contains("hidden")) {
+            return;
+        }
+
+        let settings: IUserMediaSettings = this.userMedia.GetSettings();
+        let context = canvas.getContext("2d");
+        let centreX = canvas.width / 2;
+        let centreY = canvas.height / 2;
+
+        context.clearRect(0, 0, canvas.width, canvas.height);
+        context.textAlign = "center";
+        context.font = "12px sans-serif";
+
+        context.strokeStyle = "rgba(255, 255, 255, 0.1)";
+        for (let radius = centreX / 3; radius <= centreX; radius += centreX / 3) {
+            context.beginPath();
+            context.arc(centreX, centreY, radius, 0, Math.PI * 2);
+            context.stroke();
+        }
+
+        // Show which way we are facing
+        let angle = Number(settings.AudioSpatialDirection.Value) * Math.PI / 180;
+        context.strokeStyle = "white";
+        context.beginPath();
+        context.moveTo(centreX, centreY);
+        context.lineTo(centreX + Math.sin(angle) * 20, centreY - Math.cos(angle) * 20);
+        context.stroke();
+
+        context.fillStyle = "white";
+        context.beginPath();
+        context.arc(centreX, centreY, 6, 0, Math.PI * 2);
+        context.fill();
+        context.fillText("You", centreX, centreY + 20);
+
+        for (let clientId in this.remoteVideo) {
+            let position = this.getRoomPosition(clientId);
+            let x = centreX + position[0] * centreX;
+            let y = centreY - position[1] * centreY;
+
+            context.fillStyle = clientId == this.draggingClientId ? "orange" : "rgb(0, 128, 255)";
+            context.beginPath();
+            context.arc(x, y, 8, 0, Math.PI * 2);
+            context.fill();
+
+            context.fillStyle = "white";
+            context.fillText(this.getClientName(clientId), x, y + 22);
+        }
+
+        if (!settings.AudioSpatial.Value || settings.AudioSpatialLayout.Value != "Room Map") {
+            context.fillStyle = "rgba(255, 255, 255, 0.6)";
+            context.fillText("Choose the Room Map spatial layout to place voices here", centreX, canvas.height - 8);
+        }
+    }
+
+    public createEqualiserCurve(paragraph: HTMLParagraphElement): void {
+        paragraph.title = "How the equaliser changes the volume of each frequency";
+
+        let canvas = document.createElement("canvas");
+        canvas.id = "equaliserCanvas";
+        canvas.width = 300;
+        canvas.height = 120;
+        paragraph.appendChild(canvas);
+
+        this.drawEqualiserCurve();
+    }
+
+    public drawEqualiserCurve(): void {
+        let canvas = <HTMLCanvasElement>document.getElementById("equaliserCanvas");
+        if (canvas === null) {
+            return;
+        }
+
+        let settings: IUserMediaSettings = this.userMedia.GetSettings();
+        let context = canvas.getContext("2d");
+        let minFrequency = 20;
+        let maxFrequency = 20000;
+        let maxGain = 15;
+
+        // Frequencies are spread out logarithmically, the way we hear them
+        let frequencies = new Float32Array(canvas.width);
+        frequencies.forEach((_, x) => frequencies[x] = minFrequency * Math.pow(maxFrequency / minFrequency, x / (canvas.width - 1)));
+        let toY = (gain: number) => canvas.height / 2 - (gain / maxGain) * (canvas.height / 2);
+
+        context.clearRect(0, 0, canvas.width, canvas.height);
+        context.textAlign = "left";
+        context.font = "10px sans-serif";
+
+        context.strokeStyle = "rgba(255, 255, 255, 0.1)";
+        context.fillStyle = "rgba(255, 255, 255, 0.6)";
+        [100, 1000, 10000].forEach(frequency => {
+            let x = Math.log(frequency / minFrequency) / Math.log(maxFrequency / minFrequency) * canvas.width;
+            context.beginPath();
+            context.moveTo(x, 0);
+            context.lineTo(x, canvas.height);
+            context.stroke();
+            context.fillText(frequency >= 1000 ? (frequency / 1000) + "k" : String(frequency), x + 2, canvas.height - 2);
+        });
+
+        context.beginPath();
+        context.moveTo(0, toY(0));
+        context.lineTo(canvas.width, toY(0));
+        context.stroke();
+
+        let response = this.userMedia.GetEqualiserResponse(frequencies);
+        context.strokeStyle = settings.AudioEqualiser.Value ? "rgb(0, 128, 255)" : "rgba(255, 255, 255, 0.3)";
+        context.lineWidth = 2;
+        context.beginPath();
+        response.forEach((gain, x) => {
+            let y = toY(Math.max(-maxGain, Math.min(maxGain, gain)));
+            if (x == 0) {
+                context.moveTo(x, y);
+            }
+            else {
+                context.lineTo(x, y);
+            }
+        });
+        context.stroke();
+        context.lineWidth = 1;
+
+        if (!settings.AudioEqualiser.Value) {
+            context.textAlign = "center";
+            context.fillText("Enable the equaliser to hear these changes", canvas.width / 2, 12);
+        }
     }
 
     public createCategoryTitle(category: string, parent: HTMLElement) {
@@ -334,116 +1580,331 @@ export class MainUI {
         parent.appendChild(title);
     }
 
-    public applyNewSettings(newSettings: IUserMediaSettings) {
-        this.userMedia.SetSettings(newSettings);
-
-        const oldShouldDrawVolumeHistogram: boolean = this.shouldDrawVolumeHistogram;
-
-        this.shouldDrawVolumeHistogram = newSettings.AudioLocalMeter.Value;
+    public applyNewSettings(newSettings: IUserMediaSettings, persist: boolean = true) {
+        this.userMedia.SetSettings(newSettings, persist);
+        this.updateSettingVisibility(this.userMedia.GetSettings());
+        this.drawEqualiserCurve();
+    }
 
-        if (!oldShouldDrawVolumeHistogram && this.shouldDrawVolumeHistogram) {
-            this.drawAudioVisualisations();
-        }
+    // Settings which depend on another one are only shown while they make a difference
+    public updateSettingVisibility(settings: IUserMediaSettings): void {
+        document.querySelectorAll('p[data-setting]').forEach(paragraph => {
+            let key = paragraph.getAttribute("data-setting");
+            if (settings.hasOwnProperty(key)) {
+                paragraph.classList.toggle("hidden", !SettingsSchema.IsRelevant(settings, key));
+            }
+        });
     }
 
     public createSetting(settingKey: string, settingValue: IUserMediaSetting, parent: HTMLElement) {
         let paragraph = document.createElement("p");
+        paragraph.setAttribute("data-setting", settingKey);
         parent.appendChild(paragraph);
         if (settingValue.Description != null) {
             paragraph.setAttribute("title", settingValue.Description);
         }
 
-        if (settingValue.Type == UserMediaSettingType.Generic) {
-            let input = document.createElement("input");
-            paragraph.appendChild(input);
+        this.settingControlFactories[settingValue.Control](settingKey, settingValue, paragraph);
 
-            input.type = "checkbox";
-            input.id = "setting" + input.type + settingKey;
-            input.checked = settingValue.Value;
-            input.oninput = (event) => {
-                let settings: IUserMediaSettings = this.userMedia.GetSettings();
-                let sourceElement: HTMLInputElement = <HTMLInputElement>event.srcElement;
-                settings[settingKey].Value = sourceElement.checked;
-                this.applyNewSettings(settings);
-            };
+        // Shown and hidden along with the setting
+        if (settingValue.Addon != null) {
+            let addonParagraph = document.createElement("p");
+            addonParagraph.setAttribute("data-setting", settingKey);
+            parent.appendChild(addonParagraph);
+            this.settingAddonFactories[settingValue.Addon](addonParagraph);
+        }
+    }
 
-            let label = document.createElement("label");
-            label.innerHTML = settingValue.Name;
-            if (settingValue.Description != null) {
-                label.classList.add("helptext");
-            }
-            label.setAttribute("for", input.id);
-            paragraph.append(label);
+    public createCheckboxControl(settingKey: string, settingValue: IUserMediaSetting, paragraph: HTMLParagraphElement): void {
+        let input = document.createElement("input");
+        paragraph.appendChild(input);
+
+        input.type = "checkbox";
+        input.id = "setting" + input.type + settingKey;
+        input.checked = settingValue.Value;
+        input.oninput = (event) => {
+            let settings: IUserMediaSettings = this.userMedia.GetSettings();
+            let sourceElement: HTMLInputElement = <HTMLInputElement>event.srcElement;
+            settings[settingKey].Value = sourceElement.checked;
+            this.applyNewSettings(settings);
+        };
+
+        let label = document.createElement("label");
+        label.innerHTML = settingValue.Name;
+        if (settingValue.Description != null) {
+            label.classList.add("helptext");
         }
-        else if (settingValue.Type == UserMediaSettingType.Range) {
-            let settingValueRange = <UserMediaSettingsRange>settingValue;
+        label.setAttribute("for", input.id);
+        paragraph.append(label);
+    }
 
-            let label = document.createElement("span");
-            label.innerHTML = settingValue.Name;
-            if (settingValue.Description != null) {
-                label.classList.add("helptext");
-            }
-            paragraph.appendChild(label);
+    public createSliderControl(settingKey: string, settingValue: IUserMediaSetting, paragraph: HTMLParagraphElement): void {
+        let settingValueRange = <UserMediaSettingsRange>settingValue;
 
-            let valueLabel = document.createElement("span");
-            valueLabel.innerHTML = settingValue.Value;
+        let label = document.createElement("span");
+        label.innerHTML = settingValue.Name;
+        if (settingValue.Description != null) {
+            label.classList.add("helptext");
+        }
+        paragraph.appendChild(label);
+
+        let valueLabel = document.createElement("span");
+        valueLabel.innerHTML = settingValue.Value;
+
+        let br = document.createElement("br");
+        paragraph.appendChild(br);
+
+        let input = document.createElement("input");
+        paragraph.appendChild(input);
+
+        input.type = "range";
+        input.id = "setting" + input.type + settingKey;
+        input.step = settingValueRange.Step.toString();
+        input.min = settingValueRange.Min.toString();
+        input.max = settingValueRange.Max.toString();
+        input.value = settingValue.Value;
+        input.oninput = (event) => {
+            let sourceElement = <HTMLInputElement>event.srcElement;
+            valueLabel.innerHTML = sourceElement.value;
+        };
 
-            let br = document.createElement("br");
-            paragraph.appendChild(br);
+        input.onchange = (event) => {
+            let settings: IUserMediaSettings = this.userMedia.GetSettings();
+            let sourceElement = <HTMLInputElement>event.srcElement;
+            settings[settingKey].Value = parseFloat(sourceElement.value);
+            this.applyNewSettings(settings);
+        };
 
-            let input = document.createElement("input");
-            paragraph.appendChild(input);
+        paragraph.appendChild(valueLabel);
+    }
 
-            input.type = "range";
-            input.step = settingValueRange.Step.toString();
-            input.min = settingValueRange.Min.toString();
-            input.max = settingValueRange.Max.toString();
-            input.value = settingValue.Value;
-            input.oninput = (event) => {
-                let sourceElement = <HTMLInputElement>event.srcElement;
-                valueLabel.innerHTML = sourceElement.value;
-            };
+    public createDropdownControl(settingKey: string, settingValue: IUserMediaSetting, paragraph: HTMLParagraphElement): void {
+        let settingValueOptions = <UserSettingsSelection<any>>settingValue;
+
+        let label = document.createElement("label");
+        label.innerHTML = settingValue.Name;
+        if (settingValue.Description != null) {
+            label.classList.add("helptext");
+        }
+        paragraph.append(label);
+
+        let select = document.createElement("select");
+        paragraph.appendChild(select);
+
+        this.populateSelect(select, settingValueOptions);
+
+        select.id = "setting" + select.type + settingKey;
+        select.oninput = (event) => {
+            let settings: IUserMediaSettings = this.userMedia.GetSettings();
+            let sourceElement = <HTMLSelectElement>event.srcElement;
+            settings[settingKey].Value = settings[settingKey].Options[sourceElement.selectedIndex];
+            this.applyNewSettings(settings);
+        };
+
+        label.setAttribute("for", select.id);
+    }
+
+    public createKeyPickerControl(settingKey: string, settingValue: IUserMediaSetting, paragraph: HTMLParagraphElement): void {
+        let label = document.createElement("span");
+        label.innerHTML = settingValue.Name;
+        if (settingValue.Description != null) {
+            label.classList.add("helptext");
+        }
+        paragraph.appendChild(label);
+
+        let button = document.createElement("button");
+        button.id = "settingkey" + settingKey;
+        button.textContent = settingValue.Value;
+        paragraph.appendChild(button);
+
+        button.onclick = () => {
+            this.choosingKeySetting = settingKey;
+            button.textContent = "Press a key…";
+        };
+
+        window.addEventListener('keydown', event => {
+            if (this.choosingKeySetting != settingKey) {
+                return;
+            }
+
+            event.preventDefault();
+            this.choosingKeySetting = null;
 
-            input.onchange = (event) => {
-                let settings: IUserMediaSettings = this.userMedia.GetSettings();
-                let sourceElement = <HTMLInputElement>event.srcElement;
-                settings[settingKey].Value = sourceElement.value;
+            let settings: IUserMediaSettings = this.userMedia.GetSettings();
+            if (event.code != "Escape") {
+                settings[settingKey].Value = event.code;
                 this.applyNewSettings(settings);
-            };
+            }
+
+            button.textContent = settings[settingKey].Value;
+            button.blur();
+        });
+    }
 
-            paragraph.appendChild(valueLabel);
+    public populateSelect(select: HTMLSelectElement, setting: UserSettingsSelection<any>): void {
+        select.innerHTML = "";
+
+        for (let i = 0; i < setting.Options.length; i++) {
+            let option = document.createElement("option");
+            option.value = setting.Options[i];
+            option.textContent = setting.OptionLabels != null ? setting.OptionLabels[i] : option.value;
+            select.appendChild(option);
         }
-        else if (settingValue.Type == UserMediaSettingType.Select) {
-            let settingValueOptions = <UserSettingsSelection<any>>settingValue;
 
-            let label = document.createElement("label");
-            label.innerHTML = settingValue.Name;
-            if (settingValue.Description != null) {
-                label.classList.add("helptext");
+        select.selectedIndex = setting.Options.indexOf(setting.Value);
+    }
+
+    // For when lots of settings change at once, such as choosing a preset
+    public replaceSettings(newSettings: IUserMediaSettings): void {
+        this.applyNewSettings(newSettings);
+        this.refreshSettingControls(newSettings);
+    }
+
+    public refreshSettingControls(settings: IUserMediaSettings): void {
+        for (let key in settings) {
+            if (!settings.hasOwnProperty(key)) {
+                continue;
+            }
+
+            if (settings[key].Control == SettingControl.Checkbox) {
+                let input: HTMLInputElement = document.querySelector('#settingcheckbox' + key);
+                if (input !== null) {
+                    input.checked = settings[key].Value;
+                }
             }
-            paragraph.append(label);
+            else if (settings[key].Control == SettingControl.Slider) {
+                let input: HTMLInputElement = document.querySelector('#settingrange' + key);
+                if (input !== null) {
+                    input.value = settings[key].Value;
+                    input.nextElementSibling.innerHTML = settings[key].Value;
+                }
+            }
+            else if (settings[key].Control == SettingControl.KeyPicker) {
+                let button: HTMLButtonElement = document.querySelector('#settingkey' + key);
+                if (button !== null) {
+                    button.textContent = settings[key].Value;
+                }
+            }
+        }
+
+        this.refreshSelectSettings(settings);
+    }
+
+    public createPresetControls(parent: HTMLElement): void {
+        this.createCategoryTitle("Presets", parent);
 
-            let select = document.createElement("select");
-            paragraph.appendChild(select);
+        let paragraph = document.createElement("p");
+        paragraph.title = "Changes several settings at once, to suit what you're doing";
+        parent.appendChild(paragraph);
+
+        let select = document.createElement("select");
+        select.id = "settingsPreset";
+        paragraph.appendChild(select);
+
+        let placeholder = document.createElement("option");
+        placeholder.textContent = "Choose a preset…";
+        select.appendChild(placeholder);
 
-            for (let i = 0; i < settingValueOptions.Options.length; i++) {
-                let option = document.createElement("option");
-                option.value = settingValueOptions.Options[i];
-                option.innerHTML = option.value;
-                select.appendChild(option);
+        for (let name in SettingsStore.Presets) {
+            let option = document.createElement("option");
+            option.value = name;
+            option.textContent = name;
+            select.appendChild(option);
+        }
+
+        select.oninput = () => {
+            let settings: IUserMediaSettings = this.userMedia.GetSettings();
+            SettingsStore.ApplyPreset(settings, select.value);
+            select.selectedIndex = 0;
+            this.replaceSettings(settings);
+        };
+
+        let buttons = document.createElement("p");
+        parent.appendChild(buttons);
+
+        let exportButton = document.createElement("button");
+        exportButton.innerHTML = "Export";
+        exportButton.title = "Save your settings to a file";
+        buttons.appendChild(exportButton);
+
+        exportButton.onclick = () => {
+            let file = new Blob([SettingsStore.Export(this.userMedia.GetSettings())], { type: "application/json" });
+            let link = document.createElement("a");
+            link.href = URL.createObjectURL(file);
+            link.download = "settings.json";
+            link.click();
+            URL.revokeObjectURL(link.href);
+        };
+
+        let importInput = document.createElement("input");
+        importInput.type = "file";
+        importInput.accept = "application/json,.json";
+        importInput.classList.add("hidden");
+        buttons.appendChild(importInput);
+
+        let importButton = document.createElement("button");
+        importButton.innerHTML = "Import";
+        importButton.title = "Load settings from a file you exported";
+        importButton.onclick = () => importInput.click();
+        buttons.appendChild(importButton);
+
+        importInput.onchange = async () => {
+            if (importInput.files.length == 0) {
+                return;
             }
 
-            select.selectedIndex = settingValueOptions.Options.indexOf(settingValue.Value);
+            let settings: IUserMediaSettings = this.userMedia.GetSettings();
+            try {
+                SettingsStore.Import(settings, await importInput.files[0].text());
+            }
+            catch (err) {
+                this.logTextMessage("Unable to import settings: " + err.message, "info");
+                return;
+            }
+            finally {
+                importInput.value = "";
+            }
 
-            select.id = "setting" + select.type + settingKey;
-            select.oninput = (event) => {
-                let settings: IUserMediaSettings = this.userMedia.GetSettings();
-                let sourceElement = <HTMLSelectElement>event.srcElement;
-                settings[settingKey].Value = settings[settingKey].Options[sourceElement.selectedIndex];
-                this.applyNewSettings(settings);
-            };
+            this.replaceSettings(settings);
+            this.logMessage("✔️ Settings imported", "success");
+        };
+
+        let resetButton = document.createElement("button");
+        resetButton.innerHTML = "Reset to Defaults";
+        resetButton.onclick = () => this.replaceSettings(this.userMedia.GetDefaultSettings());
+        buttons.appendChild(resetButton);
+
+        let linkButton = document.createElement("button");
+        linkButton.innerHTML = "🔗 Copy Link with My Settings";
+        linkButton.title = "A link to this room which starts with any settings you have changed, for example to send to attendees";
+        buttons.appendChild(linkButton);
 
-            label.setAttribute("for", select.id);
+        linkButton.onclick = async () => {
+            let link = SettingsCodec.CreateLink(this.userMedia.GetSettings(), this.userMedia.GetDefaultSettings());
+
+            try {
+                await navigator.clipboard.writeText(link);
+                this.logMessage("🔗 Link copied", "success");
+            }
+            catch (err) {
+                // Clipboard access can be denied, so show the link to copy by hand instead
+                let message = this.logMessage("🔗 Copy this link: <a></a>", "info");
+                let anchor = message.querySelector('a');
+                anchor.href = link;
+                anchor.textContent = link;
+            }
+        };
+    }
+
+    // Options such as devices change while running, so redraw them
+    public refreshSelectSettings(settings: IUserMediaSettings): void {
+        for (let key in settings) {
+            if (settings.hasOwnProperty(key) && settings[key].Control == SettingControl.Dropdown) {
+                let select: HTMLSelectElement = document.querySelector('#settingselect-one' + key);
+                if (select !== null) {
+                    this.populateSelect(select, settings[key]);
+                }
+            }
         }
     }
 
@@ -540,25 +2001,4 @@ export class MainUI {
             context.fillRect(columnWidth * i, 0, 1, canvas.height);
         }
     }
-
-    public parseStringToType(input: string, type: string) {
-        if (type === "boolean") {
-            if (input.toLowerCase() === "true") {
-                return true;
-            }
-
-            if (input.toLowerCase() === "false") {
-                return false;
-            }
-        }
-
-        if (type === "number") {
-            let value = parseFloat(input);
-            if (!isNaN(value)) {
-                return value;
-            }
-        }
-
-        throw "Error parsing " + input + " to " + type;
-    }
 }
\ No newline at end of file
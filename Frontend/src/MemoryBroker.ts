@@ -0,0 +1,70 @@
+import { ISessionConfig } from "./SessionConfig";
+import { IBroker, OnMessageDelegate, OnStateChangedDelegate, BrokerState } from "./Broker";
+import { SignallingProtocol, Envelope, ISignallingPayloads, SignallingMessageType, LocalCapabilities } from "./SignallingProtocol";
+
+// Signals between instances in the same page, for use in tests
+export class MemoryBroker implements IBroker {
+    private static rooms: { [roomId: string]: MemoryBroker[]; } = {};
+
+    public OnMessage: OnMessageDelegate;
+    public OnStateChanged: OnStateChangedDelegate;
+    private readonly sessionConfig: ISessionConfig;
+
+    public constructor(sessionConfig: ISessionConfig) {
+        this.sessionConfig = sessionConfig;
+    }
+
+    public static Reset(): void {
+        MemoryBroker.rooms = {};
+    }
+
+    public async Open(): Promise<void> {
+        const roomId: string = this.sessionConfig.RoomId;
+        if (!MemoryBroker.rooms.hasOwnProperty(roomId)) {
+            MemoryBroker.rooms[roomId] = [];
+        }
+
+        MemoryBroker.rooms[roomId].push(this);
+        this.OnStateChanged(BrokerState.Connected);
+        this.Send({ sessionId: this.sessionConfig.SessionId, capabilities: LocalCapabilities }, "discover", roomId);
+    }
+
+    public Close(): void {
+        const room: MemoryBroker[] = MemoryBroker.rooms[this.sessionConfig.RoomId];
+        if (room == null || room.indexOf(this) < 0) {
+            return;
+        }
+
+        room.splice(room.indexOf(this), 1);
+        this.OnStateChanged(BrokerState.Closed);
+    }
+
+    private OnMessageInternal(serialized: string): void {
+        const envelope: Envelope = SignallingProtocol.Deserialize(serialized);
+        if (envelope != null) {
+            this.OnMessage(envelope);
+        }
+    }
+
+    public Send<T extends SignallingMessageType>(payload: ISignallingPayloads[T], type: T, toId: string): void {
+        const serialized: string = SignallingProtocol.Serialize(this.sessionConfig, payload, type, toId);
+        const isBroadcast: boolean = toId == this.sessionConfig.RoomId;
+
+        const room: MemoryBroker[] = MemoryBroker.rooms[this.sessionConfig.RoomId];
+        if (room == null || room.indexOf(this) < 0) {
+            console.warn("Dropping " + type + " message as the broker is closed");
+            return;
+        }
+
+        room.forEach(broker => {
+            if (broker === this) {
+                return;
+            }
+
+            if (isBroadcast || broker.sessionConfig.AttendeeId == toId) {
+                // Deliver asynchronously, as a real transport would
+                setTimeout(() => broker.OnMessageInternal(serialized), 0);
+            }
+        });
+    }
+}
@@ -0,0 +1,382 @@
+import { IAudioEffect } from "./AudioEffects";
+import { IUserMediaSettings, IUserMediaSetting, UserMediaSetting, UserMediaSettingsRange } from "./UserMedia";
+import { SettingAddon } from "./SettingsSchema";
+
+export class NoiseSuppressorStatus {
+    // Without AudioWorklet support the audio passes through untouched
+    public IsSupported: boolean = false;
+    public IsLearning: boolean = false;
+    public HasProfile: boolean = false;
+    // The fraction of real time spent suppressing noise
+    public CpuUsage: number = 0;
+}
+
+interface OnStatusChangedDelegate {
+    (status: NoiseSuppressorStatus): void;
+}
+
+// Runs on the audio rendering thread, so it is plain JavaScript loaded from a
+// blob rather than part of the bundle. Each block of 128 samples, the last 512
+// are taken into the frequency domain, the estimated noise is subtracted from
+// every bin, and the result is overlap-added back together. The noise is
+// estimated from the quietest the input has been recently, unless a
+// profile has been learned from a few seconds of background noise.
+const ProcessorSource: string = `
+const FrameSize = 512;
+const HopSize = 128;
+const BinCount = FrameSize / 2 + 1;
+// The noise is the quietest each bin has been over the last few windows, of about a quarter of a second each
+const NoiseWindowFrames = 96;
+const NoiseWindowCount = 6;
+// The minimum of a noisy signal is below its average, so scale it back up
+const NoiseMinimumBias = 1.5;
+
+const Window = new Float32Array(FrameSize);
+for (let i = 0; i < FrameSize; i++) {
+    // The square root of a Hann window, applied before and after, overlaps back to a constant
+    Window[i] = Math.sqrt(0.5 - 0.5 * Math.cos(2 * Math.PI * i / FrameSize));
+}
+
+const BitReversed = new Uint32Array(FrameSize);
+for (let i = 0, bits = Math.log2(FrameSize); i < FrameSize; i++) {
+    let reversed = 0;
+    for (let bit = 0; bit < bits; bit++) {
+        reversed |= ((i >> bit) & 1) << (bits - 1 - bit);
+    }
+    BitReversed[i] = reversed;
+}
+
+function FFT(real, imag, inverse) {
+    for (let i = 0; i < FrameSize; i++) {
+        const j = BitReversed[i];
+        if (j > i) {
+            let swap = real[i]; real[i] = real[j]; real[j] = swap;
+            swap = imag[i]; imag[i] = imag[j]; imag[j] = swap;
+        }
+    }
+
+    for (let size = 2; size <= FrameSize; size *= 2) {
+        const angle = (inverse ? 2 : -2) * Math.PI / size;
+        for (let start = 0; start < FrameSize; start += size) {
+            for (let k = 0; k < size / 2; k++) {
+                const cos = Math.cos(angle * k);
+                const sin = Math.sin(angle * k);
+                const even = start + k;
+                const odd = even + size / 2;
+                const oddReal = real[odd] * cos - imag[odd] * sin;
+                const oddImag = real[odd] * sin + imag[odd] * cos;
+                real[odd] = real[even] - oddReal;
+                imag[odd] = imag[even] - oddImag;
+                real[even] += oddReal;
+                imag[even] += oddImag;
+            }
+        }
+    }
+
+    if (inverse) {
+        for (let i = 0; i < FrameSize; i++) {
+            real[i] /= FrameSize;
+            imag[i] /= FrameSize;
+        }
+    }
+}
+
+class ChannelState {
+    constructor() {
+        this.input = new Float32Array(FrameSize);
+        this.output = new Float32Array(FrameSize);
+        this.smoothed = new Float32Array(BinCount);
+        this.noise = new Float32Array(BinCount);
+        this.windowMinimum = new Float32Array(BinCount).fill(Infinity);
+        this.windowMinimums = [];
+        this.windowFrames = 0;
+        this.gains = new Float32Array(BinCount).fill(1);
+    }
+}
+
+class NoiseSuppressorProcessor extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [{ name: "strength", defaultValue: 0.5, minValue: 0, maxValue: 1, automationRate: "k-rate" }];
+    }
+
+    constructor() {
+        super();
+        this.channels = [];
+        this.real = new Float32Array(FrameSize);
+        this.imag = new Float32Array(FrameSize);
+        this.magnitudes = new Float32Array(BinCount);
+        this.profile = null;
+        this.learning = null;
+        this.learningFramesLeft = 0;
+        this.busyTime = 0;
+        this.audioTime = 0;
+        this.isStopped = false;
+        this.port.onmessage = event => this.onMessage(event.data);
+    }
+
+    onMessage(message) {
+        if (message.type == "learn") {
+            this.learning = new Float32Array(BinCount);
+            this.learningFramesLeft = Math.ceil(message.seconds * sampleRate / HopSize);
+            this.learningFrameCount = this.learningFramesLeft;
+        }
+        else if (message.type == "profile") {
+            this.profile = message.profile == null ? null : Float32Array.from(message.profile);
+        }
+        else if (message.type == "stop") {
+            this.isStopped = true;
+        }
+    }
+
+    process(inputs, outputs, parameters) {
+        // Returning false lets the browser get rid of us
+        if (this.isStopped) {
+            return false;
+        }
+
+        const input = inputs[0];
+        const output = outputs[0];
+        if (input.length == 0) {
+            return true;
+        }
+
+        const startTime = Date.now();
+        const strength = parameters.strength[0];
+
+        for (let channel = 0; channel < input.length && channel < output.length; channel++) {
+            if (this.channels.length <= channel) {
+                this.channels.push(new ChannelState());
+            }
+
+            this.processChannel(this.channels[channel], input[channel], output[channel], strength, channel == 0);
+        }
+
+        this.reportUsage(Date.now() - startTime);
+        return true;
+    }
+
+    processChannel(state, input, output, strength, isFirstChannel) {
+        state.input.copyWithin(0, HopSize);
+        state.input.set(input, FrameSize - HopSize);
+
+        for (let i = 0; i < FrameSize; i++) {
+            this.real[i] = state.input[i] * Window[i];
+            this.imag[i] = 0;
+        }
+        FFT(this.real, this.imag, false);
+
+        for (let bin = 0; bin < BinCount; bin++) {
+            const magnitude = Math.sqrt(this.real[bin] * this.real[bin] + this.imag[bin] * this.imag[bin]);
+            this.magnitudes[bin] = magnitude;
+            state.smoothed[bin] = 0.8 * state.smoothed[bin] + 0.2 * magnitude;
+            state.windowMinimum[bin] = Math.min(state.windowMinimum[bin], state.smoothed[bin]);
+        }
+
+        if (++state.windowFrames == NoiseWindowFrames) {
+            this.estimateNoise(state);
+        }
+
+        if (this.learning != null && isFirstChannel) {
+            this.learnFrame();
+        }
+
+        // Subtracting more than the noise catches its peaks, and the floor stops
+        // it from sounding like it drops out completely between words
+        const overSubtraction = 3 * strength;
+        const floor = 1 - 0.9 * strength;
+        const noise = this.profile != null ? this.profile : state.noise;
+
+        for (let bin = 0; bin < BinCount; bin++) {
+            const magnitude = this.magnitudes[bin];
+            const gain = magnitude > 0 ? Math.max(floor, 1 - overSubtraction * noise[bin] / magnitude) : floor;
+
+            // Smoothing the gains over time avoids the warbling "musical noise"
+            state.gains[bin] = 0.5 * state.gains[bin] + 0.5 * gain;
+
+            this.real[bin] *= state.gains[bin];
+            this.imag[bin] *= state.gains[bin];
+            if (bin > 0 && bin < FrameSize / 2) {
+                this.real[FrameSize - bin] *= state.gains[bin];
+                this.imag[FrameSize - bin] *= state.gains[bin];
+            }
+        }
+        FFT(this.real, this.imag, true);
+
+        // Hann windows a quarter of a frame apart add up to 2
+        for (let i = 0; i < FrameSize; i++) {
+            state.output[i] += this.real[i] * Window[i] * 0.5;
+        }
+
+        output.set(state.output.subarray(0, HopSize));
+        state.output.copyWithin(0, HopSize);
+        state.output.fill(0, FrameSize - HopSize);
+    }
+
+    estimateNoise(state) {
+        state.windowMinimums.push(state.windowMinimum);
+        if (state.windowMinimums.length > NoiseWindowCount) {
+            state.windowMinimums.shift();
+        }
+
+        for (let bin = 0; bin < BinCount; bin++) {
+            let minimum = Infinity;
+            state.windowMinimums.forEach(windowMinimum => minimum = Math.min(minimum, windowMinimum[bin]));
+            state.noise[bin] = minimum * NoiseMinimumBias;
+        }
+
+        state.windowMinimum = new Float32Array(BinCount).fill(Infinity);
+        state.windowFrames = 0;
+    }
+
+    learnFrame() {
+        for (let bin = 0; bin < BinCount; bin++) {
+            this.learning[bin] += this.magnitudes[bin] / this.learningFrameCount;
+        }
+
+        this.learningFramesLeft--;
+        if (this.learningFramesLeft > 0) {
+            return;
+        }
+
+        this.profile = this.learning;
+        this.learning = null;
+        this.port.postMessage({ type: "learned", profile: Array.from(this.profile) });
+    }
+
+    reportUsage(busyTime) {
+        this.busyTime += busyTime;
+        this.audioTime += HopSize / sampleRate * 1000;
+
+        if (this.audioTime >= 1000) {
+            this.port.postMessage({ type: "usage", cpuUsage: this.busyTime / this.audioTime });
+            this.busyTime = 0;
+            this.audioTime = 0;
+        }
+    }
+}
+
+registerProcessor("noise-suppressor", NoiseSuppressorProcessor);
+`;
+
+// A spectral subtraction noise suppressor, which behaves the same in every
+// browser, unlike the one built into getUserMedia
+export class NoiseSuppressorEffect implements IAudioEffect {
+    private node: AudioWorkletNode;
+    private profile: number[];
+    private status: NoiseSuppressorStatus = new NoiseSuppressorStatus();
+
+    private static readonly ProcessorName: string = "noise-suppressor";
+    private static readonly LearningTime: number = 2;
+    // Shared by the whole page, so it's only loaded into the first context it's given,
+    // which is fine as UserMedia only ever creates one
+    private static modulePromise: Promise<boolean>;
+
+    public readonly EnabledKey: string = "AudioNoiseSuppressor";
+
+    public OnStatusChanged: OnStatusChangedDelegate;
+
+    // Has to be done before the chain is built. Resolves to whether the browser supports it.
+    public static LoadModule(context: BaseAudioContext): Promise<boolean> {
+        if (NoiseSuppressorEffect.modulePromise != null) {
+            return NoiseSuppressorEffect.modulePromise;
+        }
+
+        if (context.audioWorklet == null) {
+            console.warn("AudioWorklet isn't supported, the in-app noise suppressor won't do anything");
+            NoiseSuppressorEffect.modulePromise = Promise.resolve(false);
+            return NoiseSuppressorEffect.modulePromise;
+        }
+
+        const url: string = URL.createObjectURL(new Blob([ProcessorSource], { type: "application/javascript" }));
+        NoiseSuppressorEffect.modulePromise = context.audioWorklet.addModule(url)
+            .then(() => true)
+            .catch(err => {
+                console.error("Unable to load the noise suppressor: " + err);
+                return false;
+            });
+
+        return NoiseSuppressorEffect.modulePromise;
+    }
+
+    public CreateSettings(): { [key: string]: IUserMediaSetting; } {
+        return {
+            AudioNoiseSuppressor: new UserMediaSetting<boolean>(false, "Enable In-App Noise Suppression", "Filters out steady background sounds, such as fans and hums, the same way in every web browser", "Audio Effects", false),
+            AudioNoiseSuppressorStrength: new UserMediaSettingsRange(0, 1, 0.05, 0.5, "Noise Suppression Strength", "Higher values remove more noise, but can make your voice sound thin", "Audio Effects", false).WithDependency("AudioNoiseSuppressor").WithAddon(SettingAddon.NoiseProfile)
+        };
+    }
+
+    public CreateNodes(context: BaseAudioContext): AudioNode[] {
+        // Otherwise the old processor would keep running, as it has no way of knowing it's been replaced
+        if (this.node != null) {
+            this.node.port.onmessage = null;
+            this.node.port.postMessage({ type: "stop" });
+            this.node.disconnect();
+        }
+
+        let isSupported: boolean = false;
+        try {
+            this.node = new AudioWorkletNode(context, NoiseSuppressorEffect.ProcessorName);
+            isSupported = true;
+        }
+        catch (err) {
+            // The module didn't load, so let the audio through as it is
+            this.node = null;
+        }
+
+        this.status.IsSupported = isSupported;
+        this.status.IsLearning = false;
+        this.status.CpuUsage = 0;
+        this.StatusChanged();
+
+        if (this.node == null) {
+            return [context.createGain()];
+        }
+
+        this.node.port.onmessage = event => this.ProcessorMessage(event.data);
+        this.node.port.postMessage({ type: "profile", profile: this.profile });
+        return [this.node];
+    }
+
+    public SetParameters(settings: IUserMediaSettings): void {
+        if (this.node != null) {
+            // The DOM typings don't know AudioParamMap is a map
+            const parameters = this.node.parameters as unknown as Map<string, AudioParam>;
+            parameters.get("strength").value = Number(settings.AudioNoiseSuppressorStrength.Value);
+        }
+    }
+
+    // Listens to the microphone for a couple of seconds, which should only be background noise
+    public LearnNoiseProfile(): void {
+        if (this.node == null) {
+            return;
+        }
+
+        this.node.port.postMessage({ type: "learn", seconds: NoiseSuppressorEffect.LearningTime });
+        this.status.IsLearning = true;
+        this.StatusChanged();
+    }
+
+    public GetStatus(): NoiseSuppressorStatus {
+        return this.status;
+    }
+
+    private ProcessorMessage(message: { type: string; cpuUsage?: number; profile?: number[]; }): void {
+        if (message.type == "usage") {
+            this.status.CpuUsage = message.cpuUsage;
+        }
+        else if (message.type == "learned") {
+            // Kept here so that it survives the graph being rebuilt
+            this.profile = message.profile;
+            this.status.IsLearning = false;
+        }
+
+        this.StatusChanged();
+    }
+
+    private StatusChanged(): void {
+        this.status.HasProfile = this.profile != null;
+        if (this.OnStatusChanged != null) {
+            this.OnStatusChanged(this.status);
+        }
+    }
+}
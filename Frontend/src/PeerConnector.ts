@@ -1,11 +1,26 @@
+import { StatisticsReports, IStats, ICandidatePairStats } from "./ConnectionStatistics";
+import { CodecPreferences, SdpMunger } from "./CodecPreferences";
+
 export interface IPeerConnector {
     Shutdown(): void;
     StartLocalStream(stream: MediaStream): void;
     GetStatistics(): Promise<RTCStatsReport>;
     AcceptAnswer(answer: RTCSessionDescriptionInit): Promise<void>;
     AcceptOffer(offer: RTCSessionDescriptionInit): Promise<void>;
-    AddRemoteCandidates(candidates: RTCIceCandidate[]): Promise<void>;
+    AddRemoteCandidates(candidates: readonly RTCIceCandidateInit[]): Promise<void>;
+    AddRemoteEndOfCandidates(usernameFragment: string): Promise<void>;
+    RestartIce(): void;
+    SetConfiguration(configuration: RTCConfiguration): void;
+    Renegotiate(): Promise<void>;
+    SetVideoEncoding(encoding: VideoEncoding): Promise<void>;
+    SetCodecPreferences(preferences: CodecPreferences): void;
+    SendChatData(data: string): boolean;
+    OnChatData: OnChatDataDelegate;
+    SendFileData(data: string | ArrayBuffer): Promise<void>;
+    OnFileData: OnFileDataDelegate;
+    OnFileChannelChanged: OnFileChannelChangedDelegate;
     OnHasIceCandidates: OnHasIceCandidatesDelegate;
+    OnEndOfCandidates: OnEndOfCandidatesDelegate;
     OnHasStreams: OnHasStreamsDelegate;
     OnHasOffer: OnHasOfferDelegate;
     OnAcceptedOffer: OnAcceptedOfferDelegate;
@@ -20,6 +35,10 @@ interface OnHasIceCandidatesDelegate {
     (candidates: readonly RTCIceCandidate[]): void;
 }
 
+interface OnEndOfCandidatesDelegate {
+    (usernameFragment: string): void;
+}
+
 interface OnHasOfferDelegate {
     (offer: RTCSessionDescription): void;
 }
@@ -28,10 +47,24 @@ interface OnAcceptedOfferDelegate {
     (offer: RTCSessionDescription): void;
 }
 
+interface OnChatDataDelegate {
+    (data: string): void;
+}
+
+interface OnFileDataDelegate {
+    (data: string | ArrayBuffer): void;
+}
+
+interface OnFileChannelChangedDelegate {
+    (isOpen: boolean): void;
+}
+
 export enum ConnectionChangeType {
     Ice,
     RTC,
-    Signal
+    Signal,
+    Recovery,
+    Candidate
 }
 
 export class ConnectionChange {
@@ -44,6 +77,13 @@ export class ConnectionChange {
     readonly State: string;
 }
 
+export class VideoEncoding {
+    // Bits per second, zero leaves it up to the browser
+    public MaxBitrate: number = 0;
+    public ScaleResolutionDownBy: number = 1;
+    public DegradationPreference: RTCDegradationPreference = "balanced";
+}
+
 export interface OnConnectionChangedDelegate {
     (change: ConnectionChange): void;
 }
@@ -51,19 +91,44 @@ export interface OnConnectionChangedDelegate {
 export class PeerConnector implements IPeerConnector {
     private connector: RTCPeerConnection;
     private localCandidates: RTCIceCandidate[] = new Array<RTCIceCandidate>();
-    private remoteCandidates: RTCIceCandidate[] = new Array<RTCIceCandidate>();
-    private readonly shouldOffer: boolean;
+    private localCandidatesTimeout: number;
+    // Candidates found within this many milliseconds of each other
+    // are sent together, zero sends each one immediately
+    private readonly candidateBatchWindow: number;
+    private remoteCandidates: RTCIceCandidateInit[] = new Array<RTCIceCandidateInit>();
+    // When offers collide, the polite peer rolls back its own offer
+    // and accepts the remote one, while the impolite peer ignores it
+    private readonly isPolite: boolean;
+
+    // State for the "perfect negotiation" pattern, see
+    // https://w3c.github.io/webrtc-pc/#perfect-negotiation-example
+    private makingOffer: boolean = false;
+    private ignoreOffer: boolean = false;
+    private isSettingRemoteAnswerPending: boolean = false;
+    private readonly chatChannel: RTCDataChannel;
+    private readonly fileChannel: RTCDataChannel;
+    private fileChannelWaiters: Array<() => void> = new Array<() => void>();
+    private videoEncoding: VideoEncoding = new VideoEncoding();
+    private codecPreferences: CodecPreferences = new CodecPreferences();
+
+    // Stop queueing file data once this much is waiting to be sent,
+    // and start again once it has drained below the low threshold
+    private static readonly FileChannelMaxBufferedAmount: number = 1024 * 1024;
+    private static readonly FileChannelLowBufferedAmount: number = 256 * 1024;
 
+    public OnChatData: OnChatDataDelegate;
+    public OnFileData: OnFileDataDelegate;
+    public OnFileChannelChanged: OnFileChannelChangedDelegate;
     public OnHasIceCandidates: OnHasIceCandidatesDelegate;
+    public OnEndOfCandidates: OnEndOfCandidatesDelegate;
     public OnHasStreams: OnHasStreamsDelegate;
     public OnHasOffer: OnHasOfferDelegate;
     public OnAcceptedOffer: OnAcceptedOfferDelegate;
     public OnConnectionChanged: OnConnectionChangedDelegate;
 
-    public constructor(shouldOffer : boolean) {
-        this.shouldOffer = shouldOffer;
-        this.shouldOffer;
-        const configuration = { iceServers: [{ urls: 'stun:stun.l.google.com:19302' }] };
+    public constructor(isPolite: boolean, configuration: RTCConfiguration, candidateBatchWindow: number) {
+        this.isPolite = isPolite;
+        this.candidateBatchWindow = candidateBatchWindow;
         this.connector = new RTCPeerConnection(configuration);
 
         this.connector.onconnectionstatechange = () => {
@@ -72,40 +137,263 @@ export class PeerConnector implements IPeerConnector {
 
         this.connector.oniceconnectionstatechange = () => {
             this.OnConnectionChanged(new ConnectionChange(ConnectionChangeType.Ice, this.connector.iceConnectionState));
+
+            if (this.connector.iceConnectionState == "connected" || this.connector.iceConnectionState == "completed") {
+                this.ReportSelectedCandidatePair().catch(err => console.warn("Unable to report the selected candidate pair: " + err));
+            }
         }
 
         this.connector.onsignalingstatechange = () => {
             this.OnConnectionChanged(new ConnectionChange(ConnectionChangeType.Signal, this.connector.signalingState));
+
+            // Senders only have encodings to change once they have been negotiated
+            if (this.connector.signalingState == "stable") {
+                this.ApplyVideoEncoding();
+            }
         }
 
         this.connector.onicecandidate = (event: RTCPeerConnectionIceEvent) => {
             if (event.candidate == null) {
-                this.OnHasIceCandidates(this.localCandidates);
-                this.localCandidates = new Array<RTCIceCandidate>();
+                this.FlushLocalCandidates();
+                this.OnEndOfCandidates(this.GetLocalUsernameFragment());
             }
-            else {
+            // Firefox signals end of candidates with an empty candidate before the null one
+            else if (event.candidate.candidate.length > 0) {
                 this.localCandidates.push(event.candidate);
+
+                if (this.candidateBatchWindow <= 0) {
+                    this.FlushLocalCandidates();
+                }
+                else if (this.localCandidatesTimeout == null) {
+                    this.localCandidatesTimeout = window.setTimeout(() => this.FlushLocalCandidates(), this.candidateBatchWindow);
+                }
             }
         }
 
-        this.connector.onnegotiationneeded = async () => {
-            if (!this.shouldOffer && this.connector.localDescription == null && this.connector.remoteDescription == null) {
-                console.log("Ignoring onnegotiationneeded since this connector shouldn't offer");
-                return;
-            }
-
-            try {
-                await this.connector.setLocalDescription(null);
-                console.log("OnHasOffer");
-                this.OnHasOffer(this.connector.localDescription);
-            } catch (err) {
-                console.error(err);
-            }
-        };
+        this.connector.onnegotiationneeded = () => this.SendOffer();
 
         this.connector.ontrack = (ev: RTCTrackEvent) => {
             this.OnHasStreams(ev.streams);
         };
+
+        // Both sides create the same channel with a fixed ID, so
+        // neither needs to wait for an ondatachannel event
+        this.chatChannel = this.connector.createDataChannel("chat", { negotiated: true, id: 0 });
+        this.chatChannel.onmessage = (event: MessageEvent) => this.OnChatData(event.data);
+
+        this.fileChannel = this.connector.createDataChannel("files", { negotiated: true, id: 1 });
+        this.fileChannel.binaryType = "arraybuffer";
+        this.fileChannel.bufferedAmountLowThreshold = PeerConnector.FileChannelLowBufferedAmount;
+        this.fileChannel.onmessage = (event: MessageEvent) => this.OnFileData(event.data);
+        this.fileChannel.onbufferedamountlow = () => this.ReleaseFileChannelWaiters();
+        this.fileChannel.onopen = () => this.OnFileChannelChanged(true);
+        this.fileChannel.onclose = () => {
+            this.ReleaseFileChannelWaiters();
+            this.OnFileChannelChanged(false);
+        };
+    }
+
+    private ReleaseFileChannelWaiters(): void {
+        const waiters = this.fileChannelWaiters;
+        this.fileChannelWaiters = new Array<() => void>();
+        waiters.forEach(waiter => waiter());
+    }
+
+    public async SendFileData(data: string | ArrayBuffer): Promise<void> {
+        while (this.fileChannel.readyState == "open" && this.fileChannel.bufferedAmount > PeerConnector.FileChannelMaxBufferedAmount) {
+            await new Promise<void>(resolve => this.fileChannelWaiters.push(resolve));
+        }
+
+        if (this.fileChannel.readyState != "open") {
+            throw new Error("The file channel is not open");
+        }
+
+        // The overloads for send don't accept a union
+        if (typeof data === "string") {
+            this.fileChannel.send(data);
+        }
+        else {
+            this.fileChannel.send(data);
+        }
+    }
+
+    public SendChatData(data: string): boolean {
+        if (this.chatChannel.readyState != "open") {
+            return false;
+        }
+
+        this.chatChannel.send(data);
+        return true;
+    }
+
+    private FlushLocalCandidates(): void {
+        clearTimeout(this.localCandidatesTimeout);
+        this.localCandidatesTimeout = null;
+
+        if (this.localCandidates.length > 0) {
+            this.OnHasIceCandidates(this.localCandidates);
+            this.localCandidates = new Array<RTCIceCandidate>();
+        }
+    }
+
+    private GetLocalUsernameFragment(): string {
+        const description: RTCSessionDescription = this.connector.localDescription;
+        if (description == null) {
+            return null;
+        }
+
+        const match: RegExpMatchArray = description.sdp.match(/a=ice-ufrag:(.+)/);
+        return match == null ? null : match[1].trim();
+    }
+
+    private async SendOffer(options?: RTCOfferOptions): Promise<void> {
+        try {
+            this.makingOffer = true;
+            this.ApplyVideoCodecPreference();
+            await this.connector.setLocalDescription(this.MungeDescription(await this.connector.createOffer(options)));
+            console.log("OnHasOffer");
+            this.OnHasOffer(this.connector.localDescription);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            this.makingOffer = false;
+        }
+    }
+
+    public SetConfiguration(configuration: RTCConfiguration): void {
+        this.connector.setConfiguration(configuration);
+    }
+
+    // Takes effect from the next negotiation, so renegotiate if we already have
+    public SetCodecPreferences(preferences: CodecPreferences): void {
+        this.codecPreferences = preferences;
+
+        if (this.connector.remoteDescription != null && this.connector.signalingState == "stable" && !this.makingOffer) {
+            this.SendOffer();
+        }
+    }
+
+    private static SupportsCodecPreferences(): boolean {
+        return typeof RTCRtpTransceiver !== "undefined" && "setCodecPreferences" in RTCRtpTransceiver.prototype && typeof RTCRtpReceiver.getCapabilities === "function";
+    }
+
+    private ApplyVideoCodecPreference(): void {
+        if (!PeerConnector.SupportsCodecPreferences()) {
+            return;
+        }
+
+        const capabilities: RTCRtpCapabilities = RTCRtpReceiver.getCapabilities("video");
+        if (capabilities == null) {
+            return;
+        }
+
+        // An empty list restores the browser's own preferences
+        let codecs: RTCRtpCodecCapability[] = [];
+        if (this.codecPreferences.VideoCodec != null) {
+            const mimeType: string = ("video/" + this.codecPreferences.VideoCodec).toLowerCase();
+            codecs = capabilities.codecs.filter(codec => codec.mimeType.toLowerCase() == mimeType)
+                .concat(capabilities.codecs.filter(codec => codec.mimeType.toLowerCase() != mimeType));
+        }
+
+        this.connector.getTransceivers()
+            .filter(transceiver => transceiver.receiver.track != null && transceiver.receiver.track.kind == "video")
+            .forEach(transceiver => {
+                try {
+                    transceiver.setCodecPreferences(codecs);
+                }
+                catch (err) {
+                    console.warn("Unable to set video codec preferences: " + err);
+                }
+            });
+    }
+
+    // Opus parameters describe what the side writing them would like to receive,
+    // so our preferences go in both descriptions to apply to both directions
+    private MungeDescription(description: RTCSessionDescriptionInit): RTCSessionDescriptionInit {
+        if (description.sdp == null) {
+            return description;
+        }
+
+        let sdp: string = SdpMunger.SetOpusParameters(description.sdp, this.codecPreferences);
+
+        if (this.codecPreferences.VideoCodec != null && !PeerConnector.SupportsCodecPreferences()) {
+            sdp = SdpMunger.PreferVideoCodec(sdp, this.codecPreferences.VideoCodec);
+        }
+
+        return { type: description.type, sdp: sdp };
+    }
+
+    public async SetVideoEncoding(encoding: VideoEncoding): Promise<void> {
+        this.videoEncoding = encoding;
+        await this.ApplyVideoEncoding();
+    }
+
+    private async ApplyVideoEncoding(): Promise<void> {
+        if (!this.localSenders.hasOwnProperty("video")) {
+            return;
+        }
+
+        const sender: RTCRtpSender = this.localSenders["video"];
+        const parameters: RTCRtpSendParameters = sender.getParameters();
+        if (parameters.encodings == null || parameters.encodings.length == 0) {
+            return;
+        }
+
+        parameters.encodings.forEach(encoding => {
+            if (this.videoEncoding.MaxBitrate > 0) {
+                encoding.maxBitrate = this.videoEncoding.MaxBitrate;
+            }
+            else {
+                delete encoding.maxBitrate;
+            }
+            encoding.scaleResolutionDownBy = Math.max(1, this.videoEncoding.ScaleResolutionDownBy);
+        });
+        parameters.degradationPreference = this.videoEncoding.DegradationPreference;
+
+        try {
+            await sender.setParameters(parameters);
+        }
+        catch (err) {
+            console.warn("Unable to set video encoding: " + err);
+        }
+    }
+
+    private async ReportSelectedCandidatePair(): Promise<void> {
+        const reports: { [id: string]: IStats } = StatisticsReports.ToDictionary(await this.connector.getStats());
+        const selectedPair: ICandidatePairStats = StatisticsReports.FindSelectedCandidatePair(reports);
+        if (selectedPair == null) {
+            return;
+        }
+
+        const localType: string = StatisticsReports.GetCandidateType(reports, selectedPair.localCandidateId);
+        const remoteType: string = StatisticsReports.GetCandidateType(reports, selectedPair.remoteCandidateId);
+        if (localType == null || remoteType == null) {
+            return;
+        }
+
+        this.OnConnectionChanged(new ConnectionChange(ConnectionChangeType.Candidate, localType + " ↔ " + remoteType));
+    }
+
+    public RestartIce(): void {
+        // restartIce is newer than the DOM typings, and not in older browsers
+        const connector = this.connector as { [key: string]: any };
+        if (typeof connector['restartIce'] === "function") {
+            console.log("Restarting ICE");
+            connector['restartIce']();
+        }
+        else {
+            this.Renegotiate();
+        }
+    }
+
+    public async Renegotiate(): Promise<void> {
+        // An offer is already in flight, which will do the same job
+        if (this.makingOffer || this.connector.signalingState != "stable") {
+            return;
+        }
+
+        console.log("Renegotiating with fresh ICE credentials");
+        await this.SendOffer({ iceRestart: true });
     }
 
     public Shutdown() : void {
@@ -116,52 +404,115 @@ export class PeerConnector implements IPeerConnector {
         return await this.connector.getStats();
     }
 
-    public async AddRemoteCandidates(candidates: RTCIceCandidate[]): Promise<void> {
-        candidates.forEach(async (candidate: RTCIceCandidate) => {
-            try {
-                await this.connector.addIceCandidate(candidate);
-            }
-            catch (err) {
-                this.remoteCandidates.push(candidate);
+    public async AddRemoteCandidates(candidates: readonly RTCIceCandidateInit[]): Promise<void> {
+        // Candidates can overtake the description they belong to, so hold on to them until it arrives
+        if (this.connector.remoteDescription == null) {
+            candidates.forEach(candidate => this.remoteCandidates.push(candidate));
+            return;
+        }
+
+        for (let i = 0; i < candidates.length; i++) {
+            await this.AddRemoteCandidate(candidates[i]);
+        }
+    }
+
+    public async AddRemoteEndOfCandidates(usernameFragment: string): Promise<void> {
+        // An empty candidate string indicates the end of candidates for the given ICE generation
+        const endOfCandidates: RTCIceCandidateInit = { candidate: "", sdpMLineIndex: 0, usernameFragment: usernameFragment };
+        await this.AddRemoteCandidates([endOfCandidates]);
+    }
+
+    private async AddRemoteCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+        try {
+            await this.connector.addIceCandidate(candidate);
+        }
+        catch (err) {
+            // Candidates for an offer we ignored are expected to fail, as is
+            // end of candidates in browsers which don't support signalling it
+            if (!this.ignoreOffer && candidate.candidate.length > 0) {
+                console.warn("Unable to add remote candidate: " + err);
             }
-        });
+        }
     }
 
     public async AcceptAnswer(answer: RTCSessionDescriptionInit): Promise<void> {
         console.log("AcceptAnswer");
-        await this.connector.setRemoteDescription(answer);
+        await this.AcceptDescription(answer);
     }
 
     public async AcceptOffer(offer: RTCSessionDescriptionInit): Promise<void> {
         console.log("AcceptOffer");
-        await this.connector.setRemoteDescription(offer);
+        await this.AcceptDescription(offer);
+    }
 
-        await this.connector.setLocalDescription(await this.connector.createAnswer());
+    private async AcceptDescription(description: RTCSessionDescriptionInit): Promise<void> {
+        const isReadyForOffer: boolean = !this.makingOffer && (this.connector.signalingState == "stable" || this.isSettingRemoteAnswerPending);
+        const isOfferCollision: boolean = description.type == "offer" && !isReadyForOffer;
 
-        this.remoteCandidates.forEach(async (candidate: RTCIceCandidate) => {
-            await this.connector.addIceCandidate(candidate);
-        });
-        this.remoteCandidates = new Array<RTCIceCandidate>();
+        this.ignoreOffer = !this.isPolite && isOfferCollision;
+        if (this.ignoreOffer) {
+            console.log("Ignoring colliding offer, the remote peer will accept ours instead");
+            return;
+        }
 
-        this.OnAcceptedOffer(this.connector.localDescription);
+        try {
+            if (isOfferCollision) {
+                console.log("Rolling back our offer to accept a colliding remote offer");
+                await this.connector.setLocalDescription({ type: "rollback" });
+            }
+
+            this.isSettingRemoteAnswerPending = description.type == "answer";
+            await this.connector.setRemoteDescription(this.MungeDescription(description));
+        }
+        finally {
+            this.isSettingRemoteAnswerPending = false;
+        }
+
+        const remoteCandidates: RTCIceCandidateInit[] = this.remoteCandidates;
+        this.remoteCandidates = new Array<RTCIceCandidateInit>();
+        await this.AddRemoteCandidates(remoteCandidates);
+
+        if (description.type == "offer") {
+            this.ApplyVideoCodecPreference();
+            await this.connector.setLocalDescription(this.MungeDescription(await this.connector.createAnswer()));
+            this.OnAcceptedOffer(this.connector.localDescription);
+        }
     }
 
-    private readonly rtpSenders: RTCRtpSender[] = new Array<RTCRtpSender>();
+    // One sender per kind of media for the life of the connection, with
+    // every track sent as part of the same stream so the remote side sees
+    // a single stream however often our tracks change
+    private readonly localStream: MediaStream = new MediaStream();
+    private readonly localSenders: { [kind: string]: RTCRtpSender; } = {};
 
     public StartLocalStream(stream: MediaStream): void {
-        this.StopLocalStream();
-
-        stream.getTracks().forEach((track: MediaStreamTrack) => {
-            console.log("adding track");
-            this.rtpSenders.push(this.connector.addTrack(track, stream));
+        ["audio", "video"].forEach(kind => {
+            const tracks: MediaStreamTrack[] = stream.getTracks().filter(track => track.kind == kind);
+            this.SetLocalTrack(kind, tracks.length > 0 ? tracks[0] : null);
         });
     }
 
-    private StopLocalStream(): void {
-        this.rtpSenders.forEach((sender: RTCRtpSender) => {
-            console.log("removing track");
-            this.connector.removeTrack(sender);
-        });
-        this.rtpSenders.slice(this.rtpSenders.length - 1);
+    // Replacing the track of an existing sender doesn't need renegotiating,
+    // only adding the first track of a kind or switching a kind on or off does
+    private SetLocalTrack(kind: string, track: MediaStreamTrack): void {
+        if (!this.localSenders.hasOwnProperty(kind)) {
+            if (track != null) {
+                console.log("Adding " + kind + " track");
+                this.localSenders[kind] = this.connector.addTrack(track, this.localStream);
+            }
+            return;
+        }
+
+        const sender: RTCRtpSender = this.localSenders[kind];
+        if (sender.track !== track) {
+            sender.replaceTrack(track).catch(err => console.warn("Unable to replace " + kind + " track: " + err));
+        }
+
+        const transceiver: RTCRtpTransceiver = this.connector.getTransceivers().find(transceiver => transceiver.sender === sender);
+        const direction: RTCRtpTransceiverDirection = track == null ? "recvonly" : "sendrecv";
+        if (transceiver != null && transceiver.direction != direction) {
+            console.log("Switching " + kind + " to " + direction);
+            transceiver.direction = direction;
+        }
     }
-}
\ No newline at end of file
+}
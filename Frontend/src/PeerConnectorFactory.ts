@@ -1,11 +1,20 @@
 import { IPeerConnector, PeerConnector } from "./PeerConnector";
+import { IIceServerProvider } from "./IceServerProvider";
 
 export interface IPeerConnectorFactory {
-    CreatePeerConnector(shouldOffer: boolean) : IPeerConnector;
+    CreatePeerConnector(isPolite: boolean) : IPeerConnector;
 }
 
 export class PeerConnectorFactory implements IPeerConnectorFactory {
-    public CreatePeerConnector(shouldOffer: boolean) : IPeerConnector {
-        return new PeerConnector(shouldOffer);
+    private readonly iceServerProvider: IIceServerProvider;
+    private readonly candidateBatchWindow: number;
+
+    constructor(iceServerProvider: IIceServerProvider, candidateBatchWindow: number) {
+        this.iceServerProvider = iceServerProvider;
+        this.candidateBatchWindow = candidateBatchWindow;
+    }
+
+    public CreatePeerConnector(isPolite: boolean) : IPeerConnector {
+        return new PeerConnector(isPolite, this.iceServerProvider.GetConfiguration(), this.candidateBatchWindow);
     }
 }
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { ConnectionChange, ConnectionChangeType } from "./PeerConnector";
+
+export enum RecoveryState {
+    Connecting = "connecting",
+    Connected = "connected",
+    Disconnected = "disconnected",
+    RestartingIce = "restarting ice",
+    Renegotiating = "renegotiating",
+    Rebuilding = "rebuilding",
+    Failed = "failed",
+    // The other side closed their page, so there is nothing to recover
+    Left = "left"
+}
+
+interface OnRecoveryActionDelegate {
+    (): void;
+}
+
+interface OnRecoveryStateChangedDelegate {
+    (state: RecoveryState): void;
+}
+
+// Escalates through increasingly disruptive ways of getting a peer
+// connection back: restarting ICE, renegotiating over the broker and
+// finally rebuilding the connector, before giving up on the peer
+export class PeerRecovery {
+    private state: RecoveryState = RecoveryState.Connecting;
+    private troubleStarted: number;
+    private stepTimeout: number;
+    private giveUpTimeout: number;
+    private rebuildCount: number = 0;
+
+    // Give a disconnected connection a chance to come back on its own
+    private static readonly DisconnectedTimeout: number = 3000;
+    private static readonly RestartIceTimeout: number = 8000;
+    private static readonly MaxRebuilds: number = 2;
+
+    private readonly canRebuild: boolean;
+    private readonly gracePeriod: number;
+
+    public OnRestartIce: OnRecoveryActionDelegate;
+    public OnRenegotiate: OnRecoveryActionDelegate;
+    public OnRebuild: OnRecoveryActionDelegate;
+    public OnStateChanged: OnRecoveryStateChangedDelegate;
+
+    // Only one side of a connection should rebuild, the other waits to be reset
+    constructor(canRebuild: boolean, gracePeriod: number) {
+        this.canRebuild = canRebuild;
+        this.gracePeriod = gracePeriod;
+    }
+
+    public ConnectionChanged(change: ConnectionChange): void {
+        if (this.state == RecoveryState.Failed || this.state == RecoveryState.Left || change.Type == ConnectionChangeType.Signal) {
+            return;
+        }
+
+        if (change.State == "connected" || change.State == "completed") {
+            this.Recovered();
+        }
+        else if (change.State == "disconnected" && this.state == RecoveryState.Connected) {
+            this.BeginTrouble();
+            this.SetState(RecoveryState.Disconnected);
+            this.stepTimeout = window.setTimeout(() => this.RestartIce(), PeerRecovery.DisconnectedTimeout);
+        }
+        else if (change.State == "failed" && (this.state == RecoveryState.Connected || this.state == RecoveryState.Disconnected || this.state == RecoveryState.Connecting)) {
+            this.BeginTrouble();
+            this.RestartIce();
+        }
+    }
+
+    // Called when the remote side rebuilt the connection for us
+    public Rebuilt(): void {
+        if (this.state == RecoveryState.Failed) {
+            return;
+        }
+
+        this.BeginTrouble();
+        clearTimeout(this.stepTimeout);
+        this.SetState(RecoveryState.Rebuilding);
+    }
+
+    public Stop(): void {
+        clearTimeout(this.stepTimeout);
+        clearTimeout(this.giveUpTimeout);
+    }
+
+    public Left(): void {
+        this.Stop();
+        this.SetState(RecoveryState.Left);
+    }
+
+    private SetState(state: RecoveryState): void {
+        if (this.state != state) {
+            this.state = state;
+            this.OnStateChanged(state);
+        }
+    }
+
+    private BeginTrouble(): void {
+        if (this.troubleStarted != null) {
+            return;
+        }
+
+        this.troubleStarted = Date.now();
+
+        // Leave enough time for every rebuild to have had its own grace period
+        const giveUpAfter: number = this.gracePeriod * (PeerRecovery.MaxRebuilds + 1);
+        this.giveUpTimeout = window.setTimeout(() => this.GiveUp(), giveUpAfter);
+    }
+
+    private Recovered(): void {
+        this.Stop();
+        this.troubleStarted = null;
+        this.rebuildCount = 0;
+        this.SetState(RecoveryState.Connected);
+    }
+
+    private RestartIce(): void {
+        clearTimeout(this.stepTimeout);
+        this.SetState(RecoveryState.RestartingIce);
+        this.OnRestartIce();
+        this.stepTimeout = window.setTimeout(() => this.Renegotiate(), PeerRecovery.RestartIceTimeout);
+    }
+
+    private Renegotiate(): void {
+        this.SetState(RecoveryState.Renegotiating);
+        this.OnRenegotiate();
+
+        const untilGraceElapsed: number = Math.max(0, this.troubleStarted + this.gracePeriod - Date.now());
+        this.stepTimeout = window.setTimeout(() => this.Rebuild(), untilGraceElapsed);
+    }
+
+    private Rebuild(): void {
+        if (!this.canRebuild || this.rebuildCount >= PeerRecovery.MaxRebuilds) {
+            // Wait for the other side to rebuild, or for the give up timeout
+            return;
+        }
+
+        this.rebuildCount++;
+        this.SetState(RecoveryState.Rebuilding);
+        this.OnRebuild();
+        this.stepTimeout = window.setTimeout(() => this.Rebuild(), this.gracePeriod);
+    }
+
+    private GiveUp(): void {
+        clearTimeout(this.stepTimeout);
+        this.SetState(RecoveryState.Failed);
+    }
+}
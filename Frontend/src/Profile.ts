@@ -0,0 +1,114 @@
+// What an attendee tells everyone else about themselves
+export class Profile {
+    public Name: string = "";
+    public Status: string = "";
+    // A small image as a data URL, or null to show initials instead
+    public AvatarImage: string = null;
+    // Behind the initials, as a #rrggbb colour
+    public AvatarColour: string = null;
+}
+
+// Remembers our own profile between visits, and keeps profiles small enough
+// to send to everyone through the signalling server
+export class ProfileStore {
+    private static readonly StorageKey: string = "profile";
+    private static readonly AvatarColours: string[] = ["#e6194b", "#3cb44b", "#4363d8", "#f58231", "#911eb4", "#008080", "#9a6324", "#800000"];
+
+    public static readonly MaxNameLength: number = 40;
+    public static readonly MaxStatusLength: number = 100;
+    // Avatars are downscaled to a square this many pixels across
+    public static readonly AvatarSize: number = 64;
+    public static readonly MaxAvatarImageLength: number = 16384;
+
+    public static Load(): Profile {
+        let profile: Profile = new Profile();
+        try {
+            const saved: Profile = JSON.parse(window.localStorage.getItem(ProfileStore.StorageKey));
+            if (saved != null) {
+                profile = ProfileStore.Normalise(saved);
+            }
+        }
+        catch (err) {
+            console.warn("Ignoring saved profile: " + err);
+        }
+
+        if (profile.AvatarColour == null) {
+            profile.AvatarColour = ProfileStore.AvatarColours[Math.floor(Math.random() * ProfileStore.AvatarColours.length)];
+            ProfileStore.Save(profile);
+        }
+
+        return profile;
+    }
+
+    public static Save(profile: Profile): void {
+        try {
+            window.localStorage.setItem(ProfileStore.StorageKey, JSON.stringify(profile));
+        }
+        catch (err) {
+            console.warn("Unable to save profile: " + err);
+        }
+    }
+
+    // Trims the text and drops anything which wouldn't be accepted by other attendees
+    public static Normalise(profile: Profile): Profile {
+        const normalised: Profile = new Profile();
+        normalised.Name = typeof profile.Name === "string" ? profile.Name.trim().substring(0, ProfileStore.MaxNameLength) : "";
+        normalised.Status = typeof profile.Status === "string" ? profile.Status.trim().substring(0, ProfileStore.MaxStatusLength) : "";
+        normalised.AvatarImage = ProfileStore.IsValidAvatarImage(profile.AvatarImage) ? profile.AvatarImage : null;
+        normalised.AvatarColour = ProfileStore.IsValidAvatarColour(profile.AvatarColour) ? profile.AvatarColour : null;
+        return normalised;
+    }
+
+    public static IsValidAvatarImage(image: any): boolean {
+        return typeof image === "string" && image.length <= ProfileStore.MaxAvatarImageLength && /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/=]+$/.test(image);
+    }
+
+    public static IsValidAvatarColour(colour: any): boolean {
+        return typeof colour === "string" && /^#[0-9a-f]{6}$/i.test(colour);
+    }
+
+    // Up to two letters, from the first and last words
+    public static GetInitials(name: string): string {
+        const words: string[] = name.trim().split(/\s+/).filter(word => word.length > 0);
+        if (words.length == 0) {
+            return "?";
+        }
+
+        const first: string = words[0].charAt(0);
+        const last: string = words.length > 1 ? words[words.length - 1].charAt(0) : "";
+        return (first + last).toUpperCase();
+    }
+
+    // Crops the middle of the image to a square and shrinks it, all without it leaving the browser
+    public static async CreateAvatarImage(file: File): Promise<string> {
+        if (!file.type.startsWith("image/")) {
+            throw new Error(file.name + " isn't an image");
+        }
+
+        const url: string = URL.createObjectURL(file);
+        try {
+            const image: HTMLImageElement = await new Promise<HTMLImageElement>((resolve, reject) => {
+                const element: HTMLImageElement = new Image();
+                element.onload = () => resolve(element);
+                element.onerror = () => reject(new Error(file.name + " couldn't be loaded as an image"));
+                element.src = url;
+            });
+
+            const size: number = Math.min(image.naturalWidth, image.naturalHeight);
+            const canvas: HTMLCanvasElement = document.createElement("canvas");
+            canvas.width = ProfileStore.AvatarSize;
+            canvas.height = ProfileStore.AvatarSize;
+            canvas.getContext("2d").drawImage(image, (image.naturalWidth - size) / 2, (image.naturalHeight - size) / 2, size, size, 0, 0, canvas.width, canvas.height);
+
+            const dataUrl: string = canvas.toDataURL("image/jpeg", 0.85);
+            if (!ProfileStore.IsValidAvatarImage(dataUrl)) {
+                throw new Error(file.name + " is too detailed to use as an avatar");
+            }
+
+            return dataUrl;
+        }
+        finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+}
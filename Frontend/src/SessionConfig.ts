@@ -4,15 +4,83 @@ export interface ISessionConfig {
     SessionId: string;
     AttendeeId: string;
     RoomId: string;
+    SignallingUrl: string;
+    BrokerType: string;
+    RecoveryGracePeriod: number;
+    IceServers: RTCIceServer[];
+    IceTransportPolicy: RTCIceTransportPolicy;
+    TurnCredentialsUrl: string;
+    CandidateBatchWindow: number;
 }
 
 export class SessionConfig implements ISessionConfig {
     private readonly sessionId: string = uuidv4();
     private readonly attendeeId: string = uuidv4();
     private readonly roomId: string = uuidv4();
+    private readonly signallingUrl: string;
+    private readonly brokerType: string;
+    private readonly recoveryGracePeriod: number;
+    private readonly iceServers: RTCIceServer[];
+    private readonly iceTransportPolicy: RTCIceTransportPolicy;
+    private readonly turnCredentialsUrl: string;
+    private readonly candidateBatchWindow: number;
 
     constructor(roomId: string) {
         this.roomId = roomId.length == 0 ? uuidv4() : roomId;
+        this.signallingUrl = SessionConfig.ResolveValue("SignallingUrl", "signalling-url", SIGNALLING_URL);
+        this.brokerType = SessionConfig.ResolveValue("Broker", "signalling-broker", SIGNALLING_BROKER);
+
+        // How long in seconds to try recovering a peer before rebuilding the connection
+        const recoveryGracePeriod: number = parseFloat(SessionConfig.ResolveValue("RecoveryGracePeriod", "recovery-grace-period", "20"));
+        this.recoveryGracePeriod = isNaN(recoveryGracePeriod) ? 20 : recoveryGracePeriod;
+
+        this.iceServers = SessionConfig.ParseIceServers(SessionConfig.ResolveValue("IceServers", "ice-servers", ICE_SERVERS));
+        this.turnCredentialsUrl = SessionConfig.ResolveValue("TurnCredentialsUrl", "turn-credentials-url", TURN_CREDENTIALS_URL);
+
+        // Relay only hides everyone's IP addresses from each other, at the cost of needing a TURN server
+        const iceTransportPolicy: string = SessionConfig.ResolveValue("IceTransportPolicy", "ice-transport-policy", ICE_TRANSPORT_POLICY);
+        this.iceTransportPolicy = iceTransportPolicy == "relay" ? "relay" : "all";
+
+        // How long in milliseconds to wait for more ICE candidates before sending them, zero sends each immediately
+        const candidateBatchWindow: number = parseFloat(SessionConfig.ResolveValue("CandidateBatchWindow", "candidate-batch-window", "20"));
+        this.candidateBatchWindow = isNaN(candidateBatchWindow) ? 20 : candidateBatchWindow;
+    }
+
+    // Accepts either a JSON array of RTCIceServer objects, for
+    // TURN servers which need credentials, or a list of URLs
+    private static ParseIceServers(value: string): RTCIceServer[] {
+        if (value.trim().startsWith("[")) {
+            try {
+                return JSON.parse(value);
+            }
+            catch (err) {
+                console.error("Unable to parse ICE servers, ignoring them: " + err);
+                return [];
+            }
+        }
+
+        return value.split(',')
+            .map(url => url.trim())
+            .filter(url => url.length > 0)
+            .map(url => ({ urls: url }));
+    }
+
+    // Prefer a URL parameter, then a page meta tag, then the value baked in at build time
+    private static ResolveValue(parameterName: string, metaName: string, buildValue: string): string {
+        const search = window.location.search.substring(1).split('&');
+        for (let i = 0; i < search.length; i++) {
+            const parts = search[i].split('=');
+            if (parts[0] == parameterName && parts.length > 1 && parts[1].length > 0) {
+                return decodeURIComponent(parts[1]);
+            }
+        }
+
+        const meta = document.querySelector<HTMLMetaElement>('meta[name="' + metaName + '"]');
+        if (meta !== null && meta.content.length > 0) {
+            return meta.content;
+        }
+
+        return buildValue;
     }
 
     get SessionId(): string {
@@ -26,4 +94,32 @@ export class SessionConfig implements ISessionConfig {
     get RoomId(): string {
         return this.roomId;
     }
-}
\ No newline at end of file
+
+    get SignallingUrl(): string {
+        return this.signallingUrl;
+    }
+
+    get BrokerType(): string {
+        return this.brokerType;
+    }
+
+    get RecoveryGracePeriod(): number {
+        return this.recoveryGracePeriod;
+    }
+
+    get IceServers(): RTCIceServer[] {
+        return this.iceServers;
+    }
+
+    get IceTransportPolicy(): RTCIceTransportPolicy {
+        return this.iceTransportPolicy;
+    }
+
+    get TurnCredentialsUrl(): string {
+        return this.turnCredentialsUrl;
+    }
+
+    get CandidateBatchWindow(): number {
+        return this.candidateBatchWindow;
+    }
+}
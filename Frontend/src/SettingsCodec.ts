@@ -0,0 +1,131 @@
+import { IUserMediaSettings, IUserMediaSetting, UserMediaSettingType, UserMedia } from "./UserMedia";
+import { SettingsSchema } from "./SettingsSchema";
+
+// Converts settings to and from the text in a link, so that links can carry settings
+export class SettingsCodec {
+    // Devices differ between computers, and screen sharing needs the user to choose what to share
+    private static readonly UnshareableSettings: string[] = ["ScreenEnabled"].concat(Object.keys(UserMedia.DeviceSettings));
+
+    // Throws if the text isn't a valid value for the setting
+    public static Decode(setting: IUserMediaSetting, text: string): any {
+        if (setting.Type == UserMediaSettingType.Generic) {
+            return SettingsCodec.DecodeGeneric(setting, text);
+        }
+
+        return SettingsSchema.Normalise(setting, text);
+    }
+
+    public static Encode(setting: IUserMediaSetting): string {
+        return String(setting.Value);
+    }
+
+    // Applies every setting in a query string, such as "?VideoEnabled=true", and
+    // returns warnings for the ones which couldn't be used. Parameters which
+    // aren't settings are left for others, such as the session config.
+    public static DecodeQuery(settings: IUserMediaSettings, query: string): string[] {
+        const warnings: string[] = [];
+
+        SettingsCodec.ParseQuery(query).forEach(parameter => {
+            const key: string = parameter[0];
+            if (!settings.hasOwnProperty(key)) {
+                return;
+            }
+
+            try {
+                settings[key].Value = SettingsCodec.Decode(settings[key], parameter[1]);
+            }
+            catch (err) {
+                warnings.push("Ignoring " + settings[key].Name + " (" + key + ") from the link: " + err.message);
+                return;
+            }
+
+            if (settings[key].Type == UserMediaSettingType.Range && settings[key].Value !== Number(parameter[1])) {
+                warnings.push("Using " + settings[key].Value + " for " + settings[key].Name + " (" + key + ") from the link, instead of " + parameter[1]);
+            }
+        });
+
+        return warnings;
+    }
+
+    // Only settings which differ from the defaults are included, to keep links short
+    public static EncodeQuery(settings: IUserMediaSettings, defaults: IUserMediaSettings): string {
+        const parameters: string[] = [];
+
+        for (let key in settings) {
+            if (!settings.hasOwnProperty(key) || !defaults.hasOwnProperty(key) || SettingsCodec.UnshareableSettings.indexOf(key) >= 0) {
+                continue;
+            }
+
+            const value: string = SettingsCodec.Encode(settings[key]);
+            if (value != SettingsCodec.Encode(defaults[key])) {
+                parameters.push(encodeURIComponent(key) + "=" + encodeURIComponent(value));
+            }
+        }
+
+        return parameters.join("&");
+    }
+
+    // A link to the current page with the given settings, keeping any other parameters
+    public static CreateLink(settings: IUserMediaSettings, defaults: IUserMediaSettings): string {
+        const parameters: string[] = SettingsCodec.ParseQuery(window.location.search)
+            .filter(parameter => !settings.hasOwnProperty(parameter[0]))
+            .map(parameter => encodeURIComponent(parameter[0]) + "=" + encodeURIComponent(parameter[1]));
+
+        const encodedSettings: string = SettingsCodec.EncodeQuery(settings, defaults);
+        if (encodedSettings.length > 0) {
+            parameters.push(encodedSettings);
+        }
+
+        const search: string = parameters.length > 0 ? "?" + parameters.join("&") : "";
+        return window.location.origin + window.location.pathname + search + window.location.hash;
+    }
+
+    // Decoded name and value pairs, values may themselves contain "="
+    private static ParseQuery(query: string): string[][] {
+        return query.replace(/^\?/, "").split("&")
+            .filter(parameter => parameter.length > 0)
+            .map(parameter => {
+                const separator: number = parameter.indexOf("=");
+                const name: string = separator < 0 ? parameter : parameter.substring(0, separator);
+                const value: string = separator < 0 ? "" : parameter.substring(separator + 1);
+                return [SettingsCodec.DecodeComponent(name), SettingsCodec.DecodeComponent(value)];
+            });
+    }
+
+    private static DecodeComponent(text: string): string {
+        try {
+            return decodeURIComponent(text.replace(/\+/g, " "));
+        }
+        catch (err) {
+            // Malformed escapes are most likely a literal percent sign
+            return text;
+        }
+    }
+
+    private static DecodeGeneric(setting: IUserMediaSetting, text: string): any {
+        if (typeof setting.Value === "boolean") {
+            const lowerText: string = text.toLowerCase();
+            if (lowerText == "true" || lowerText == "1" || lowerText == "yes") {
+                return true;
+            }
+            if (lowerText == "false" || lowerText == "0" || lowerText == "no") {
+                return false;
+            }
+            throw new Error("expected true or false, not \"" + text + "\"");
+        }
+
+        if (typeof setting.Value === "number") {
+            const value: number = Number(text);
+            if (text.trim().length == 0 || isNaN(value)) {
+                throw new Error("expected a number, not \"" + text + "\"");
+            }
+            return value;
+        }
+
+        if (text.length == 0) {
+            throw new Error("expected a value");
+        }
+
+        return text;
+    }
+}
@@ -0,0 +1,122 @@
+import { IUserMediaSettings, IUserMediaSetting, UserMediaSettingType, UserMediaSettingsRange, UserSettingsSelection } from "./UserMedia";
+
+// What it takes for a change to a setting to take effect
+export enum SettingApplyStrategy {
+    // Set on the nodes or connections which are already running
+    Live = "live",
+    // Rebuild the audio graph from the devices we already have
+    Reprocess = "reprocess",
+    // Ask the browser for the microphone and camera again
+    Reacquire = "reacquire"
+}
+
+// How a setting is shown in the settings panels
+export enum SettingControl {
+    Checkbox = "checkbox",
+    Slider = "slider",
+    Dropdown = "dropdown",
+    // Waits for a key to be pressed, and stores its KeyboardEvent code
+    KeyPicker = "key picker"
+}
+
+// Shown underneath a setting's own control, for things which aren't settings themselves
+export enum SettingAddon {
+    EqualiserCurve = "equaliser curve",
+    NoiseProfile = "noise profile"
+}
+
+export class SettingChange<T> {
+    public Key: string;
+    public OldValue: T;
+    public NewValue: T;
+    public ApplyStrategy: SettingApplyStrategy;
+}
+
+// Works from what each setting declares about itself, so that adding a
+// setting doesn't mean updating everything which validates or applies them
+export class SettingsSchema {
+    // From least to most disruptive
+    private static readonly ApplyStrategyOrder: SettingApplyStrategy[] = [SettingApplyStrategy.Live, SettingApplyStrategy.Reprocess, SettingApplyStrategy.Reacquire];
+
+    // Returns the value in the form the setting expects, or throws if it can't be used
+    public static Normalise(setting: IUserMediaSetting, value: any): any {
+        switch (setting.Type) {
+            case UserMediaSettingType.Range:
+                return SettingsSchema.NormaliseRange(<UserMediaSettingsRange>setting, value);
+            case UserMediaSettingType.Select:
+                return SettingsSchema.NormaliseSelection(<UserSettingsSelection<any>>setting, value);
+            default:
+                if (typeof value !== typeof setting.Value) {
+                    throw new Error("expected a " + typeof setting.Value + ", not " + JSON.stringify(value));
+                }
+                return value;
+        }
+    }
+
+    // Whether the settings this one depends on are set so that it makes a difference
+    public static IsRelevant(settings: IUserMediaSettings, key: string): boolean {
+        const dependsOnKey: string = settings[key].DependsOnKey;
+        if (dependsOnKey == null || !settings.hasOwnProperty(dependsOnKey)) {
+            return true;
+        }
+
+        return settings[dependsOnKey].Value === settings[key].DependsOnValue && SettingsSchema.IsRelevant(settings, dependsOnKey);
+    }
+
+    public static GetChanges(oldSettings: IUserMediaSettings, newSettings: IUserMediaSettings): SettingChange<any>[] {
+        const changes: SettingChange<any>[] = [];
+
+        for (let key in newSettings) {
+            if (newSettings.hasOwnProperty(key) && oldSettings.hasOwnProperty(key) && oldSettings[key].Value !== newSettings[key].Value) {
+                const change: SettingChange<any> = new SettingChange<any>();
+                change.Key = key;
+                change.OldValue = oldSettings[key].Value;
+                change.NewValue = newSettings[key].Value;
+                change.ApplyStrategy = oldSettings[key].ApplyStrategy;
+                changes.push(change);
+            }
+        }
+
+        return changes;
+    }
+
+    // The most disruptive strategy needed to apply all of the changes
+    public static GetApplyStrategy(changes: SettingChange<any>[]): SettingApplyStrategy {
+        let index: number = 0;
+        changes.forEach(change => index = Math.max(index, SettingsSchema.ApplyStrategyOrder.indexOf(change.ApplyStrategy)));
+        return SettingsSchema.ApplyStrategyOrder[index];
+    }
+
+    // Out of range values are brought into range, and snapped to the nearest step
+    private static NormaliseRange(setting: UserMediaSettingsRange, value: any): number {
+        let number: number = typeof value === "string" && value.trim().length > 0 ? Number(value) : value;
+        if (typeof number !== "number" || isNaN(number)) {
+            throw new Error("expected a number from " + setting.Min + " to " + setting.Max + ", not " + JSON.stringify(value));
+        }
+
+        number = Math.max(setting.Min, Math.min(setting.Max, number));
+        number = setting.Min + Math.round((number - setting.Min) / setting.Step) * setting.Step;
+
+        // Steps such as 0.1 don't add up exactly, so drop the floating point noise
+        return Math.min(setting.Max, parseFloat(number.toFixed(10)));
+    }
+
+    private static NormaliseSelection(setting: UserSettingsSelection<any>, value: any): any {
+        const options: string[] = setting.Options.map(option => String(option));
+
+        let index: number = options.indexOf(String(value));
+        if (index < 0 && typeof value === "string") {
+            index = options.map(option => option.toLowerCase()).indexOf(value.toLowerCase());
+        }
+
+        if (index >= 0) {
+            return setting.Options[index];
+        }
+
+        if (setting.HasDynamicOptions && typeof value === typeof setting.Value) {
+            return value;
+        }
+
+        throw new Error("expected one of " + options.join(", ") + ", not " + JSON.stringify(value));
+    }
+}
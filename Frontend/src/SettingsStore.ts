@@ -0,0 +1,192 @@
+import { IUserMediaSettings } from "./UserMedia";
+import { SettingsSchema } from "./SettingsSchema";
+
+interface ISavedSettings {
+    version: number;
+    values: { [key: string]: any; };
+}
+
+interface SettingsMigrationDelegate {
+    (values: { [key: string]: any; }): { [key: string]: any; };
+}
+
+// Remembers settings between visits. Only the values are saved, everything
+// else about a setting comes from the code, so settings which have since been
+// removed are dropped and new ones start at their defaults.
+export class SettingsStore {
+    private static readonly StorageKey: string = "settings";
+    // Bump this and add a migration when a setting is renamed or changes meaning
+    private static readonly Version: number = 1;
+
+    // Each migration upgrades saved values from the version it is keyed by to the next one
+    private static readonly Migrations: { [fromVersion: number]: SettingsMigrationDelegate } = {};
+
+    // Sharing a screen needs the user to choose what to share, so never start it by itself
+    private static readonly UnsavedSettings: string[] = ["ScreenEnabled"];
+
+    public static readonly Presets: { [name: string]: { [key: string]: any; }; } = {
+        "Podcast": {
+            AudioGain: 1.5,
+            AudioEchoCancellation: true,
+            AudioAutoGainControl: false,
+            AudioNoiseSuppression: true,
+            AudioStereo: false,
+            AudioMaxBitrate: 96,
+            AudioCompressor: true,
+            AudioCompressorThreshold: -24,
+            AudioCompressorKnee: 10,
+            AudioCompressorRatio: 4,
+            AudioCompressorAttack: 0.005,
+            AudioCompressorRelease: 0.2,
+            VideoResolution: "720p",
+            VideoFrameRate: 30
+        },
+        "Music": {
+            AudioGain: 1,
+            AudioEchoCancellation: false,
+            AudioAutoGainControl: false,
+            AudioNoiseSuppression: false,
+            AudioStereo: true,
+            AudioMaxBitrate: 256,
+            AudioSilenceSuppression: false,
+            AudioTransmitMode: "Always On",
+            AudioCompressor: false,
+            VideoResolution: "720p",
+            VideoFrameRate: 30
+        },
+        "Noisy Café": {
+            AudioGain: 1,
+            AudioEchoCancellation: true,
+            AudioAutoGainControl: true,
+            AudioNoiseSuppression: true,
+            AudioStereo: false,
+            AudioMaxBitrate: 48,
+            AudioTransmitMode: "Voice Activity",
+            AudioVoiceThreshold: -40,
+            AudioCompressor: true,
+            AudioCompressorThreshold: -30,
+            AudioCompressorRatio: 8,
+            VideoResolution: "480p",
+            VideoFrameRate: 20
+        }
+    };
+
+    // Applies any saved values on top of the given settings
+    public static Load(settings: IUserMediaSettings): void {
+        let saved: ISavedSettings;
+        try {
+            saved = JSON.parse(window.localStorage.getItem(SettingsStore.StorageKey));
+        }
+        catch (err) {
+            console.warn("Ignoring saved settings: " + err);
+            return;
+        }
+
+        if (saved == null || typeof saved.version !== "number" || typeof saved.values !== "object") {
+            return;
+        }
+
+        if (saved.version > SettingsStore.Version) {
+            // Probably saved by a newer version in another tab, which may mean something else by them
+            console.warn("Ignoring settings saved by a newer version (" + saved.version + ", ours is " + SettingsStore.Version + ")");
+            return;
+        }
+
+        let values: { [key: string]: any; };
+        try {
+            values = SettingsStore.Migrate(saved);
+        }
+        catch (err) {
+            console.warn("Ignoring saved settings: " + err.message);
+            return;
+        }
+
+        SettingsStore.ApplyValues(settings, values);
+
+        if (saved.version < SettingsStore.Version) {
+            SettingsStore.Save(settings);
+        }
+    }
+
+    public static Save(settings: IUserMediaSettings): void {
+        const saved: ISavedSettings = {
+            version: SettingsStore.Version,
+            values: SettingsStore.GetValues(settings)
+        };
+
+        try {
+            window.localStorage.setItem(SettingsStore.StorageKey, JSON.stringify(saved));
+        }
+        catch (err) {
+            console.warn("Unable to save settings: " + err);
+        }
+    }
+
+    public static Export(settings: IUserMediaSettings): string {
+        const saved: ISavedSettings = {
+            version: SettingsStore.Version,
+            values: SettingsStore.GetValues(settings)
+        };
+
+        return JSON.stringify(saved, null, 4);
+    }
+
+    // Throws if the JSON isn't exported settings
+    public static Import(settings: IUserMediaSettings, json: string): void {
+        const saved: ISavedSettings = JSON.parse(json);
+        if (saved == null || typeof saved.version !== "number" || typeof saved.values !== "object") {
+            throw new Error("expected exported settings");
+        }
+
+        SettingsStore.ApplyValues(settings, SettingsStore.Migrate(saved));
+    }
+
+    public static ApplyPreset(settings: IUserMediaSettings, name: string): void {
+        SettingsStore.ApplyValues(settings, SettingsStore.Presets[name]);
+    }
+
+    // Throws if there's no way to upgrade from the saved version
+    private static Migrate(saved: ISavedSettings): { [key: string]: any; } {
+        let values: { [key: string]: any; } = saved.values;
+        for (let version = saved.version; version < SettingsStore.Version; version++) {
+            if (!SettingsStore.Migrations.hasOwnProperty(version)) {
+                throw new Error("unknown settings version " + saved.version);
+            }
+
+            values = SettingsStore.Migrations[version](values);
+        }
+
+        return values;
+    }
+
+    private static GetValues(settings: IUserMediaSettings): { [key: string]: any; } {
+        const values: { [key: string]: any; } = {};
+        for (let key in settings) {
+            if (settings.hasOwnProperty(key) && SettingsStore.UnsavedSettings.indexOf(key) < 0) {
+                values[key] = settings[key].Value;
+            }
+        }
+
+        return values;
+    }
+
+    private static ApplyValues(settings: IUserMediaSettings, values: { [key: string]: any; }): void {
+        for (let key in values) {
+            if (SettingsStore.UnsavedSettings.indexOf(key) >= 0) {
+                continue;
+            }
+
+            if (!settings.hasOwnProperty(key)) {
+                console.warn("Ignoring unknown setting " + key);
+                continue;
+            }
+
+            try {
+                settings[key].Value = SettingsSchema.Normalise(settings[key], values[key]);
+            }
+            catch (err) {
+                console.warn("Ignoring setting " + key + ", " + err.message);
+            }
+        }
+    }
+}
@@ -0,0 +1,304 @@
+import { ISessionConfig } from "./SessionConfig";
+import { ProfileStore } from "./Profile";
+
+// Bump this when the shape of an existing message changes
+export const ProtocolVersion: number = 1;
+
+// Optional features, advertised in discover and acknowledge messages so
+// that peers running older or newer versions can avoid relying on them
+export enum Capability {
+    Chat = "chat",
+    FileTransfer = "files",
+    Recording = "recording",
+    Profile = "profile"
+}
+
+export const LocalCapabilities: Capability[] = [Capability.Chat, Capability.FileTransfer, Capability.Recording, Capability.Profile];
+
+export interface IDiscoverPayload {
+    sessionId: string;
+    capabilities: string[];
+}
+
+export interface IAcknowledgePayload {
+    capabilities: string[];
+}
+
+export interface IEndOfCandidatesPayload {
+    usernameFragment: string;
+}
+
+export interface IResetPayload {
+    reason: string;
+}
+
+// Sent to everyone when closing the page, so others don't wait for the connection to fail
+export interface ILeavePayload {
+}
+
+export interface IRecordingPayload {
+    isRecording: boolean;
+}
+
+export interface IProfilePayload {
+    name: string;
+    status: string;
+    avatarImage: string;
+    avatarColour: string;
+}
+
+export interface ILocationPayload {
+    cityName: string;
+    countryName: string;
+    countryCode: string;
+    continentName: string;
+    subdivisionName: string;
+}
+
+// Maps each message type to its payload, add new message types here
+export interface ISignallingPayloads {
+    offer: RTCSessionDescriptionInit;
+    accept: RTCSessionDescriptionInit;
+    candidates: readonly RTCIceCandidateInit[];
+    endofcandidates: IEndOfCandidatesPayload;
+    discover: IDiscoverPayload;
+    acknowledge: IAcknowledgePayload;
+    location: ILocationPayload;
+    reset: IResetPayload;
+    leave: ILeavePayload;
+    recording: IRecordingPayload;
+    profile: IProfilePayload;
+}
+
+export type SignallingMessageType = keyof ISignallingPayloads;
+
+interface IEnvelope<T extends SignallingMessageType> {
+    Version: number;
+    RoomId: string;
+    FromId: string;
+    ToId: string;
+    Type: T;
+    Data: ISignallingPayloads[T];
+}
+
+// A discriminated union of every message, switching on Type narrows Data
+export type Envelope = { [T in SignallingMessageType]: IEnvelope<T> }[SignallingMessageType];
+
+// The shape of a message as it travels between brokers, data stays
+// JSON encoded so that clients from before versioning can still decode it
+interface IWireMessage {
+    version: number;
+    roomId: string;
+    toId: string;
+    fromId: string;
+    type: string;
+    data: string;
+}
+
+interface PayloadValidatorDelegate {
+    (data: any): string;
+}
+
+export class SignallingProtocol {
+    private static readonly validators: { [T in SignallingMessageType]: PayloadValidatorDelegate } = {
+        offer: data => SignallingProtocol.ValidateSessionDescription(data),
+        accept: data => SignallingProtocol.ValidateSessionDescription(data),
+        candidates: data => SignallingProtocol.ValidateCandidates(data),
+        endofcandidates: data => {
+            if (!SignallingProtocol.IsObject(data) || (data.usernameFragment != null && typeof data.usernameFragment !== "string")) {
+                return "expected an optional username fragment";
+            }
+            return null;
+        },
+        discover: data => {
+            if (!SignallingProtocol.IsObject(data) || typeof data.sessionId !== "string") {
+                return "expected a session ID";
+            }
+            return SignallingProtocol.ValidateCapabilities(data.capabilities);
+        },
+        acknowledge: data => {
+            if (!SignallingProtocol.IsObject(data)) {
+                return "expected an object";
+            }
+            return SignallingProtocol.ValidateCapabilities(data.capabilities);
+        },
+        reset: data => {
+            if (!SignallingProtocol.IsObject(data) || typeof data.reason !== "string") {
+                return "expected a reason";
+            }
+            return null;
+        },
+        leave: data => {
+            if (!SignallingProtocol.IsObject(data)) {
+                return "expected an object";
+            }
+            return null;
+        },
+        recording: data => {
+            if (!SignallingProtocol.IsObject(data) || typeof data.isRecording !== "boolean") {
+                return "expected whether recording";
+            }
+            return null;
+        },
+        profile: data => {
+            if (!SignallingProtocol.IsObject(data)) {
+                return "expected an object";
+            }
+
+            if (typeof data.name !== "string" || data.name.length > ProfileStore.MaxNameLength) {
+                return "expected a name of up to " + ProfileStore.MaxNameLength + " characters";
+            }
+
+            if (typeof data.status !== "string" || data.status.length > ProfileStore.MaxStatusLength) {
+                return "expected a status of up to " + ProfileStore.MaxStatusLength + " characters";
+            }
+
+            if (data.avatarImage != null && !ProfileStore.IsValidAvatarImage(data.avatarImage)) {
+                return "expected an optional image data URL of up to " + ProfileStore.MaxAvatarImageLength + " characters";
+            }
+
+            if (data.avatarColour != null && !ProfileStore.IsValidAvatarColour(data.avatarColour)) {
+                return "expected an optional #rrggbb avatar colour";
+            }
+            return null;
+        },
+        location: data => {
+            if (!SignallingProtocol.IsObject(data)) {
+                return "expected an object";
+            }
+
+            const fields: string[] = ["cityName", "countryName", "countryCode", "continentName", "subdivisionName"];
+            for (let i = 0; i < fields.length; i++) {
+                if (data[fields[i]] != null && typeof data[fields[i]] !== "string") {
+                    return "expected " + fields[i] + " to be a string";
+                }
+            }
+            return null;
+        }
+    };
+
+    public static Serialize<T extends SignallingMessageType>(sessionConfig: ISessionConfig, payload: ISignallingPayloads[T], type: T, toId: string): string {
+        const message: IWireMessage = {
+            version: ProtocolVersion,
+            roomId: sessionConfig.RoomId,
+            toId: toId,
+            fromId: sessionConfig.AttendeeId,
+            type: type,
+            data: JSON.stringify(payload)
+        };
+
+        return JSON.stringify(message);
+    }
+
+    // Returns null and logs the reason if the message is malformed or not understood
+    public static Deserialize(serialized: string): Envelope {
+        let message: IWireMessage;
+        let data: any;
+        try {
+            message = JSON.parse(serialized);
+            data = SignallingProtocol.IsObject(message) && typeof message.data === "string" ? JSON.parse(message.data) : null;
+        }
+        catch (err) {
+            console.warn("Dropping signalling message which isn't valid JSON: " + err);
+            return null;
+        }
+
+        if (SignallingProtocol.IsObject(message) && message.version == null) {
+            message.version = 0;
+            data = SignallingProtocol.UpgradeLegacyPayload(message.type, data);
+        }
+
+        const reason: string = SignallingProtocol.Validate(message, data);
+        if (reason != null) {
+            console.warn("Dropping signalling message: " + reason, message);
+            return null;
+        }
+
+        return {
+            Version: message.version,
+            RoomId: message.roomId,
+            FromId: message.fromId,
+            ToId: message.toId,
+            Type: <SignallingMessageType>message.type,
+            Data: data
+        };
+    }
+
+    private static Validate(message: IWireMessage, data: any): string {
+        if (!SignallingProtocol.IsObject(message)) {
+            return "expected an object";
+        }
+
+        if (typeof message.version !== "number") {
+            return "missing protocol version";
+        }
+
+        if (typeof message.roomId !== "string" || typeof message.fromId !== "string" || typeof message.toId !== "string") {
+            return "missing room, sender or recipient";
+        }
+
+        if (!SignallingProtocol.validators.hasOwnProperty(message.type)) {
+            // Most likely from a newer client, so ignore it rather than fail
+            return "unsupported message type " + message.type + " (protocol version " + message.version + ", ours is " + ProtocolVersion + ")";
+        }
+
+        const reason: string = SignallingProtocol.validators[<SignallingMessageType>message.type](data);
+        return reason == null ? null : "invalid " + message.type + " payload, " + reason;
+    }
+
+    // Clients before versioning sent a bare session ID with discover,
+    // and had acknowledge data stripped by the backend
+    private static UpgradeLegacyPayload(type: string, data: any): any {
+        if (type == "discover" && typeof data === "string") {
+            return { sessionId: data, capabilities: [] };
+        }
+
+        if (type == "acknowledge") {
+            return { capabilities: [] };
+        }
+
+        return data;
+    }
+
+    private static IsObject(data: any): boolean {
+        return typeof data === "object" && data !== null && !Array.isArray(data);
+    }
+
+    private static ValidateSessionDescription(data: any): string {
+        if (!SignallingProtocol.IsObject(data)) {
+            return "expected an object";
+        }
+
+        if (["offer", "answer", "pranswer", "rollback"].indexOf(data.type) < 0) {
+            return "unknown description type " + data.type;
+        }
+
+        if (data.type != "rollback" && typeof data.sdp !== "string") {
+            return "expected an SDP string";
+        }
+
+        return null;
+    }
+
+    private static ValidateCandidates(data: any): string {
+        if (!Array.isArray(data)) {
+            return "expected an array";
+        }
+
+        for (let i = 0; i < data.length; i++) {
+            if (!SignallingProtocol.IsObject(data[i]) || typeof data[i].candidate !== "string") {
+                return "expected candidate " + i + " to have a candidate string";
+            }
+        }
+
+        return null;
+    }
+
+    private static ValidateCapabilities(capabilities: any): string {
+        if (!Array.isArray(capabilities) || capabilities.some(capability => typeof capability !== "string")) {
+            return "expected an array of capabilities";
+        }
+
+        return null;
+    }
+}
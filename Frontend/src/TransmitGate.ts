@@ -0,0 +1,126 @@
+import { IUserMediaSettings, UserMedia } from "./UserMedia";
+
+export enum TransmitMode {
+    AlwaysOn = "Always On",
+    PushToTalk = "Push to Talk",
+    VoiceActivity = "Voice Activity"
+}
+
+interface OnTransmittingChangedDelegate {
+    (isTransmitting: boolean): void;
+}
+
+// Decides when the microphone goes out to everyone, and fades the gate
+// node in and out rather than cutting it, to avoid clicks
+export class TransmitGate {
+    private analyserNode: AnalyserNode;
+    private gateNode: GainNode;
+    private isTransmitting: boolean = null;
+    private pollInterval: number;
+
+    private isEnabled: boolean = true;
+    private mode: string = TransmitMode.AlwaysOn;
+    private pushToTalkRelease: number = 0;
+    private voiceThreshold: number = -50;
+    private voiceHold: number = 0;
+    private voiceAttack: number = 0;
+    private voiceRelease: number = 0;
+
+    private isPushToTalkPressed: boolean = false;
+    private pushToTalkReleasedAt: number = 0;
+    private voiceLastHeardAt: number = 0;
+
+    private static readonly PollPeriod: number = 20;
+    // A fade is close enough to done after three time constants
+    private static readonly TimeConstantsPerRamp: number = 3;
+
+    public OnTransmittingChanged: OnTransmittingChangedDelegate;
+
+    // The analyser sits before the gate, so it can hear us while we're not transmitting
+    public SetNodes(analyserNode: AnalyserNode, gateNode: GainNode): void {
+        this.analyserNode = analyserNode;
+        this.gateNode = gateNode;
+
+        // The new gate node starts open, so make sure it matches
+        this.isTransmitting = null;
+        this.Update();
+    }
+
+    public SetSettings(settings: IUserMediaSettings): void {
+        this.isEnabled = settings.AudioEnabled.Value;
+        this.mode = settings.AudioTransmitMode.Value;
+        this.pushToTalkRelease = Number(settings.AudioPushToTalkRelease.Value);
+        this.voiceThreshold = Number(settings.AudioVoiceThreshold.Value);
+        this.voiceHold = Number(settings.AudioVoiceHold.Value);
+        this.voiceAttack = Number(settings.AudioVoiceAttack.Value);
+        this.voiceRelease = Number(settings.AudioVoiceRelease.Value);
+
+        clearInterval(this.pollInterval);
+        if (this.mode != TransmitMode.AlwaysOn) {
+            this.pollInterval = window.setInterval(() => this.Update(), TransmitGate.PollPeriod);
+        }
+
+        this.Update();
+    }
+
+    public SetPushToTalk(isPressed: boolean): void {
+        if (this.isPushToTalkPressed && !isPressed) {
+            this.pushToTalkReleasedAt = Date.now();
+        }
+
+        this.isPushToTalkPressed = isPressed;
+        this.Update();
+    }
+
+    public IsTransmitting(): boolean {
+        return this.isTransmitting == true;
+    }
+
+    private Update(): void {
+        this.SetTransmitting(this.ShouldTransmit());
+    }
+
+    private ShouldTransmit(): boolean {
+        const now: number = Date.now();
+
+        if (!this.isEnabled) {
+            return false;
+        }
+
+        switch (this.mode) {
+            case TransmitMode.PushToTalk:
+                return this.isPushToTalkPressed || now - this.pushToTalkReleasedAt < this.pushToTalkRelease * 1000;
+            case TransmitMode.VoiceActivity:
+                if (UserMedia.GetLevelFromAnalyser(this.analyserNode) >= this.voiceThreshold) {
+                    this.voiceLastHeardAt = now;
+                }
+                return now - this.voiceLastHeardAt < this.voiceHold * 1000;
+            default:
+                return true;
+        }
+    }
+
+    private SetTransmitting(isTransmitting: boolean): void {
+        if (this.isTransmitting === isTransmitting) {
+            return;
+        }
+
+        this.isTransmitting = isTransmitting;
+
+        if (this.gateNode != null) {
+            // Push to talk has its own release tail, so doesn't need to fade
+            let rampTime: number = 0;
+            if (this.mode == TransmitMode.VoiceActivity) {
+                rampTime = isTransmitting ? this.voiceAttack : this.voiceRelease;
+            }
+
+            const time: number = this.gateNode.context.currentTime;
+            this.gateNode.gain.cancelScheduledValues(time);
+            this.gateNode.gain.setTargetAtTime(isTransmitting ? 1 : 0, time, Math.max(0.001, rampTime / TransmitGate.TimeConstantsPerRamp));
+        }
+
+        if (this.OnTransmittingChanged != null) {
+            this.OnTransmittingChanged(isTransmitting);
+        }
+    }
+}
@@ -1,14 +1,41 @@
+import { DeviceManager } from "./DeviceManager";
+import { TransmitGate, TransmitMode } from "./TransmitGate";
+import { SettingsStore } from "./SettingsStore";
+import { SettingsSchema, SettingChange, SettingApplyStrategy, SettingControl, SettingAddon } from "./SettingsSchema";
+import { AudioEffectChain, EqualiserEffect, IAudioEffect } from "./AudioEffects";
+import { NoiseSuppressorEffect, NoiseSuppressorStatus } from "./NoiseSuppressor";
+
 export interface IUserMedia {
     GetMediaStream(): Promise<MediaStream>;
     GetSettings(): UserMediaSettings;
-    SetSettings(newSettings: UserMediaSettings): Promise<void>;
+    GetDefaultSettings(): UserMediaSettings;
+    SetSettings(newSettings: UserMediaSettings, persist?: boolean): Promise<void>;
+    AddSettingListener<K extends keyof UserMediaSettings>(key: K, listener: OnSettingChanged<UserMediaSettings[K]["Value"]>): void;
     SampleInputTimeDomain(): Float32Array;
     SampleOutputTimeDomain(): Float32Array;
     SampleInputFrequency(): Uint8Array;
     SampleOutputFrequency(): Uint8Array;
     AddRemoteStream(tag: string, mediaStream: MediaStream): void;
     RemoveRemoteStream(tag: string): void;
+    GetRemoteAudioSettings(tag: string): RemoteAudioSettings;
+    SetRemoteVolume(tag: string, volume: number): void;
+    SetRemoteMuted(tag: string, muted: boolean): void;
+    SetRemotePan(tag: string, pan: number): void;
+    SetRemotePosition(tag: string, x: number, y: number): void;
+    GetRemoteLevel(tag: string): number;
+    GetMixedAudioStream(): MediaStream;
+    SetPushToTalk(isPressed: boolean): void;
+    IsTransmitting(): boolean;
+    GetEqualiserResponse(frequencies: Float32Array): Float32Array;
+    LearnNoiseProfile(): void;
+    GetNoiseSuppressorStatus(): NoiseSuppressorStatus;
     OnMediaStreamAvailable: OnMediaStreamAvailable;
+    OnSettingsChanged: OnSettingsChanged;
+    OnDevicesChanged: OnDevicesChanged;
+    OnDeviceAdded: OnDeviceChanged;
+    OnDeviceLost: OnDeviceChanged;
+    OnTransmittingChanged: OnTransmittingChanged;
+    OnNoiseSuppressorStatusChanged: OnNoiseSuppressorStatusChanged;
 }
 
 export enum UserMediaSettingType {
@@ -23,6 +50,13 @@ export interface IUserMediaSetting {
     readonly Category: string;
     readonly Hidden: boolean;
     readonly Type: UserMediaSettingType;
+    readonly ApplyStrategy: SettingApplyStrategy;
+    readonly Control: SettingControl;
+    // Null if there is nothing to show besides the control
+    readonly Addon: SettingAddon;
+    // Only relevant while the setting with this key has the given value
+    readonly DependsOnKey: string;
+    readonly DependsOnValue: any;
     readonly Value: any;
 }
 
@@ -40,7 +74,33 @@ export class UserMediaSetting<T> implements IUserMediaSetting {
     public readonly Category: string;
     public readonly Hidden: boolean;
     public Type: UserMediaSettingType = UserMediaSettingType.Generic;
+    public ApplyStrategy: SettingApplyStrategy = SettingApplyStrategy.Live;
+    public Control: SettingControl = SettingControl.Checkbox;
+    public Addon: SettingAddon = null;
+    public DependsOnKey: string = null;
+    public DependsOnValue: any = null;
     public Value: T;
+
+    public WithApplyStrategy(applyStrategy: SettingApplyStrategy): this {
+        this.ApplyStrategy = applyStrategy;
+        return this;
+    }
+
+    public WithControl(control: SettingControl): this {
+        this.Control = control;
+        return this;
+    }
+
+    public WithAddon(addon: SettingAddon): this {
+        this.Addon = addon;
+        return this;
+    }
+
+    public WithDependency(key: string, value: any = true): this {
+        this.DependsOnKey = key;
+        this.DependsOnValue = value;
+        return this;
+    }
 }
 
 export class UserMediaSettingsRange extends UserMediaSetting<number> {
@@ -50,6 +110,7 @@ export class UserMediaSettingsRange extends UserMediaSetting<number> {
         this.Max = max;
         this.Step = step;
         this.Type = UserMediaSettingType.Range;
+        this.Control = SettingControl.Slider;
     }
 
     public readonly Min: number;
@@ -62,9 +123,20 @@ export class UserSettingsSelection<T> extends UserMediaSetting<T> {
         super(value, name, description, category, hidden);
         this.Options = options;
         this.Type = UserMediaSettingType.Select;
+        this.Control = SettingControl.Dropdown;
     }
 
-    public readonly Options: T[] = [];
+    // Options can change while the app is running, for example as devices come and go
+    public Options: T[] = [];
+    // Shown instead of the options themselves, if set
+    public OptionLabels: string[] = null;
+    // Values which aren't options yet are allowed, since the options aren't known up front
+    public HasDynamicOptions: boolean = false;
+
+    public WithDynamicOptions(): this {
+        this.HasDynamicOptions = true;
+        return this;
+    }
 }
 
 export interface IUserMediaSettings {
@@ -73,17 +145,38 @@ export interface IUserMediaSettings {
     ScreenEnabled: UserMediaSetting<boolean>;
 
     VideoEnabled: UserMediaSetting<boolean>;
+    VideoInputDevice: UserSettingsSelection<string>;
     VideoResolution: UserSettingsSelection<string>;
     VideoFrameRate: UserMediaSettingsRange;
+    VideoAdaptiveQuality: UserMediaSetting<boolean>;
+    VideoMaxBitrate: UserMediaSettingsRange;
+    VideoScaleDown: UserMediaSettingsRange;
+    VideoDegradationPreference: UserSettingsSelection<RTCDegradationPreference>;
+    VideoCodec: UserSettingsSelection<string>;
 
     AudioEnabled: UserMediaSetting<boolean>;
     AudioLocalMeter: UserMediaSetting<boolean>;
+    AudioInputDevice: UserSettingsSelection<string>;
+    AudioOutputDevice: UserSettingsSelection<string>;
     AudioGain: UserMediaSettingsRange;
+    AudioTransmitMode: UserSettingsSelection<string>;
+    AudioPushToTalkKey: UserMediaSetting<string>;
+    AudioPushToTalkRelease: UserMediaSettingsRange;
+    AudioVoiceThreshold: UserMediaSettingsRange;
+    AudioVoiceHold: UserMediaSettingsRange;
+    AudioVoiceAttack: UserMediaSettingsRange;
+    AudioVoiceRelease: UserMediaSettingsRange;
     AudioLocalListen: UserMediaSettingsRange;
     AudioEchoCancellation: UserMediaSetting<boolean>;
     AudioAutoGainControl: UserMediaSetting<boolean>;
     AudioNoiseSuppression: UserMediaSetting<boolean>;
     AudioStereo: UserMediaSetting<boolean>;
+    AudioSpatial: UserMediaSetting<boolean>;
+    AudioSpatialLayout: UserSettingsSelection<string>;
+    AudioSpatialDirection: UserMediaSettingsRange;
+    AudioMaxBitrate: UserMediaSettingsRange;
+    AudioErrorCorrection: UserMediaSetting<boolean>;
+    AudioSilenceSuppression: UserMediaSetting<boolean>;
 
     AudioCompressor: UserMediaSetting<boolean>;
     AudioCompressorThreshold: UserMediaSettingsRange;
@@ -94,110 +187,286 @@ export interface IUserMediaSettings {
 }
 
 class UserMediaSettings implements IUserMediaSettings {
-    public ScreenEnabled: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Screen", "Start sharing your screen", "Basic Screen", false);
-
-    public VideoEnabled: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Video", "Start sending your camera", "Basic Video", false);
-    public VideoResolution: UserSettingsSelection<string> = new UserSettingsSelection<string>("720p", ["480p", "720p", "1080p"], "Resolution", "Sets the ideal resolution for your camera. Your web browser might choose to ignore this.", "Advanced Video", false);
-    public VideoFrameRate: UserMediaSettingsRange = new UserMediaSettingsRange(15, 60, 5, 20, "Frame Rate", "Sets the ideal frame rate for your camera. Your web browser might choose to ignore this.", "Advanced Video", false);
+    public ScreenEnabled: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Screen", "Start sharing your screen", "Basic Screen", false).WithApplyStrategy(SettingApplyStrategy.Reacquire);
+
+    public VideoEnabled: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Video", "Start sending your camera", "Basic Video", false).WithApplyStrategy(SettingApplyStrategy.Reacquire);
+    public VideoInputDevice: UserSettingsSelection<string> = new UserSettingsSelection<string>("default", ["default"], "Camera", null, "Basic Video", false).WithApplyStrategy(SettingApplyStrategy.Reacquire).WithDynamicOptions();
+    public VideoResolution: UserSettingsSelection<string> = new UserSettingsSelection<string>("720p", ["480p", "720p", "1080p"], "Resolution", "Sets the ideal resolution for your camera. Your web browser might choose to ignore this.", "Advanced Video", false).WithApplyStrategy(SettingApplyStrategy.Reacquire);
+    public VideoFrameRate: UserMediaSettingsRange = new UserMediaSettingsRange(15, 60, 5, 20, "Frame Rate", "Sets the ideal frame rate for your camera. Your web browser might choose to ignore this.", "Advanced Video", false).WithApplyStrategy(SettingApplyStrategy.Reacquire);
+    public VideoAdaptiveQuality: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(true, "Automatic Quality", "Lowers the quality of the video you send when there are lots of attendees, or when their connections are struggling", "Advanced Video", false);
+    public VideoMaxBitrate: UserMediaSettingsRange = new UserMediaSettingsRange(100, 8000, 100, 2500, "Max Bitrate (kbps)", "The most bandwidth your video can use. With automatic quality, this is shared between attendees.", "Advanced Video", false);
+    public VideoScaleDown: UserMediaSettingsRange = new UserMediaSettingsRange(1, 4, 0.5, 1, "Scale Down Factor", "Divides the resolution of the video you send, without changing your camera", "Advanced Video", false);
+    public VideoCodec: UserSettingsSelection<string> = new UserSettingsSelection<string>("Default", ["Default", "VP8", "VP9", "H264", "AV1"], "Preferred Codec", "The video codec to use when the other attendees support it. Newer codecs look better at low bitrates, but use more CPU.", "Advanced Video", false);
+    public VideoDegradationPreference: UserSettingsSelection<RTCDegradationPreference> = new UserSettingsSelection<RTCDegradationPreference>("balanced", ["balanced", "maintain-framerate", "maintain-resolution"], "When Bandwidth Is Low", "Whether to keep a smooth frame rate or a sharp picture when there isn't enough bandwidth", "Advanced Video", false);
 
     public AudioEnabled: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(true, "Enable Audio", null, "Basic Audio", false);
     public AudioLocalMeter: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(true, "Enable Audio Meter", null, "Basic Audio", false);
+    public AudioInputDevice: UserSettingsSelection<string> = new UserSettingsSelection<string>("default", ["default"], "Microphone", null, "Basic Audio", false).WithApplyStrategy(SettingApplyStrategy.Reacquire).WithDynamicOptions();
+    public AudioOutputDevice: UserSettingsSelection<string> = new UserSettingsSelection<string>("default", ["default"], "Speakers", "Where to play the other attendees. Your web browser might not support choosing this.", "Basic Audio", false).WithDynamicOptions();
     public AudioGain: UserMediaSettingsRange = new UserMediaSettingsRange(0.5, 5, 0.5, 1, "Input Gain", "The amount of amplification to add to your microphone", "Basic Audio", false);
+    public AudioTransmitMode: UserSettingsSelection<string> = new UserSettingsSelection<string>(TransmitMode.AlwaysOn, [TransmitMode.AlwaysOn, TransmitMode.PushToTalk, TransmitMode.VoiceActivity], "Transmit Mode", "Whether your microphone is always on, only on while you hold a key, or only on while you're speaking", "Basic Audio", false);
+    // A KeyboardEvent code, which is chosen by pressing the key rather than typed in
+    public AudioPushToTalkKey: UserMediaSetting<string> = new UserMediaSetting<string>("Space", "Push to Talk Key", "The key to hold down while you speak", "Basic Audio", false).WithControl(SettingControl.KeyPicker).WithDependency("AudioTransmitMode", TransmitMode.PushToTalk);
+    public AudioPushToTalkRelease: UserMediaSettingsRange = new UserMediaSettingsRange(0, 1, 0.05, 0.2, "Push to Talk Release", "How long, in seconds, your microphone stays on after you let go of the key, so the end of what you said isn't cut off", "Advanced Audio", false).WithDependency("AudioTransmitMode", TransmitMode.PushToTalk);
+    public AudioVoiceThreshold: UserMediaSettingsRange = new UserMediaSettingsRange(-80, 0, 1, -50, "Voice Threshold", "How loud, in decibels, your microphone needs to be to count as speaking", "Advanced Audio", false).WithDependency("AudioTransmitMode", TransmitMode.VoiceActivity);
+    public AudioVoiceHold: UserMediaSettingsRange = new UserMediaSettingsRange(0, 2, 0.05, 0.3, "Voice Hold", "How long, in seconds, your microphone stays on after you stop speaking", "Advanced Audio", false).WithDependency("AudioTransmitMode", TransmitMode.VoiceActivity);
+    public AudioVoiceAttack: UserMediaSettingsRange = new UserMediaSettingsRange(0, 0.5, 0.005, 0.01, "Voice Attack", "How long, in seconds, your microphone takes to fade in when you start speaking", "Advanced Audio", false).WithDependency("AudioTransmitMode", TransmitMode.VoiceActivity);
+    public AudioVoiceRelease: UserMediaSettingsRange = new UserMediaSettingsRange(0, 1, 0.01, 0.15, "Voice Release", "How long, in seconds, your microphone takes to fade out after the hold", "Advanced Audio", false).WithDependency("AudioTransmitMode", TransmitMode.VoiceActivity);
     public AudioLocalListen: UserMediaSettingsRange = new UserMediaSettingsRange(0, 1, 0.05, 0, "Self Listen Volume", "Allow you to hear your own microphone, as the other attendees will hear it", "Advanced Audio", false);
-    public AudioEchoCancellation: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Echo Cancellation", "If you're using speakers, this will stop the other attendees from hearing themselves", "Advanced Audio", false);
-    public AudioAutoGainControl: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Auto Gain", "Enable automatic volume control", "Advanced Audio", false);
-    public AudioNoiseSuppression: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Noise Suppression", "Try to filter out background sounds", "Advanced Audio", false);
-    public AudioStereo: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Stereo (Firefox attendees only)", null, "Advanced Audio", false);
+    public AudioEchoCancellation: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Echo Cancellation", "If you're using speakers, this will stop the other attendees from hearing themselves", "Advanced Audio", false).WithApplyStrategy(SettingApplyStrategy.Reacquire);
+    public AudioAutoGainControl: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Auto Gain", "Enable automatic volume control", "Advanced Audio", false).WithApplyStrategy(SettingApplyStrategy.Reacquire);
+    public AudioNoiseSuppression: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Noise Suppression", "Ask your web browser to filter out background sounds, which works differently in each browser", "Advanced Audio", false).WithApplyStrategy(SettingApplyStrategy.Reacquire);
+    public AudioStereo: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Stereo", "Send your microphone in stereo, for example when sharing music", "Advanced Audio", false).WithApplyStrategy(SettingApplyStrategy.Reprocess);
+    public AudioSpatial: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Spatial Audio", "Place each attendee's voice around you, which makes it easier to tell people apart. Works best with headphones.", "Advanced Audio", false);
+    public AudioSpatialLayout: UserSettingsSelection<string> = new UserSettingsSelection<string>("Video Grid", ["Video Grid", "Room Map"], "Spatial Layout", "Place voices where attendees appear on screen, or wherever you drag them on the room map", "Advanced Audio", false).WithDependency("AudioSpatial");
+    public AudioSpatialDirection: UserMediaSettingsRange = new UserMediaSettingsRange(-180, 180, 15, 0, "Spatial Direction", "The direction you face in the room, in degrees clockwise from the screen", "Advanced Audio", false).WithDependency("AudioSpatial");
+    public AudioMaxBitrate: UserMediaSettingsRange = new UserMediaSettingsRange(8, 256, 8, 64, "Max Bitrate (kbps)", "The most bandwidth your audio can use. Raise this for music, lower it on a slow connection.", "Advanced Audio", false);
+    public AudioErrorCorrection: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(true, "Enable Error Correction", "Sends extra data so that lost packets can be recovered, which helps on bad connections", "Advanced Audio", false);
+    public AudioSilenceSuppression: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Silence Suppression", "Sends almost nothing while you're quiet, to save bandwidth", "Advanced Audio", false);
 
     public AudioCompressor: UserMediaSetting<boolean> = new UserMediaSetting<boolean>(false, "Enable Dynamics Compressor", "Lowers the volume of the loudest parts of the signal in order to help prevent clipping and distortion", "Advanced Audio", false);
     // https://developer.mozilla.org/en-US/docs/Web/API/DynamicsCompressorNode/threshold
-    public AudioCompressorThreshold: UserMediaSettingsRange = new UserMediaSettingsRange(-100, 0, 1, -24, "Compressor Threshold", "The decibel value above which the compression will start taking effect", "Advanced Audio", true);
+    public AudioCompressorThreshold: UserMediaSettingsRange = new UserMediaSettingsRange(-100, 0, 1, -24, "Compressor Threshold", "The decibel value above which the compression will start taking effect", "Advanced Audio", false).WithDependency("AudioCompressor");
     // https://developer.mozilla.org/en-US/docs/Web/API/DynamicsCompressorNode/knee
-    public AudioCompressorKnee: UserMediaSettingsRange = new UserMediaSettingsRange(0, 40, 1, 30, "Compressor Knee", "The decibel value representing the range above the threshold where the curve smoothly transitions to the compressed portion", "Advanced Audio", true);
+    public AudioCompressorKnee: UserMediaSettingsRange = new UserMediaSettingsRange(0, 40, 1, 30, "Compressor Knee", "The decibel value representing the range above the threshold where the curve smoothly transitions to the compressed portion", "Advanced Audio", false).WithDependency("AudioCompressor");
     // https://developer.mozilla.org/en-US/docs/Web/API/DynamicsCompressorNode/ratio
-    public AudioCompressorRatio: UserMediaSettingsRange = new UserMediaSettingsRange(1, 20, 1, 12, "Compressor Ratio", "The amount of change, in dB, needed in the input for a 1 dB change in the output", "Advanced Audio", true);
+    public AudioCompressorRatio: UserMediaSettingsRange = new UserMediaSettingsRange(1, 20, 1, 12, "Compressor Ratio", "The amount of change, in dB, needed in the input for a 1 dB change in the output", "Advanced Audio", false).WithDependency("AudioCompressor");
     // https://developer.mozilla.org/en-US/docs/Web/API/DynamicsCompressorNode/attack
-    public AudioCompressorAttack: UserMediaSettingsRange = new UserMediaSettingsRange(0, 1, 0.001, 0.003, "Compressor Attack", "The amount of time, in seconds, required to reduce the gain by 10 dB", "Advanced Audio", true);
+    public AudioCompressorAttack: UserMediaSettingsRange = new UserMediaSettingsRange(0, 1, 0.001, 0.003, "Compressor Attack", "The amount of time, in seconds, required to reduce the gain by 10 dB", "Advanced Audio", false).WithDependency("AudioCompressor");
     // https://developer.mozilla.org/en-US/docs/Web/API/DynamicsCompressorNode/release
-    public AudioCompressorRelease: UserMediaSettingsRange = new UserMediaSettingsRange(0, 1, 0.001, 0.25, "Compressor Release", "The amount of time, in seconds, required to increase the gain by 10 dB", "Advanced Audio", true);
+    public AudioCompressorRelease: UserMediaSettingsRange = new UserMediaSettingsRange(0, 1, 0.001, 0.25, "Compressor Release", "The amount of time, in seconds, required to increase the gain by 10 dB", "Advanced Audio", false).WithDependency("AudioCompressor");
+
+    // Each audio effect brings its own settings, which come after these
+    constructor() {
+        AudioEffectChain.CreateEffects().forEach(effect => Object.assign(this, effect.CreateSettings()));
+    }
+}
+
+// How we want to hear a remote attendee, which only affects what we hear
+export class RemoteAudioSettings {
+    public Volume: number = 1;
+    public Muted: boolean = false;
+    // From -1 (left) to 1 (right)
+    public Pan: number = 0;
+}
+
+class RemoteAudio {
+    public Source: MediaStreamAudioSourceNode;
+    // Before our own volume and mute, so it's how loud they actually are
+    public Analyser: AnalyserNode;
+    public Gain: GainNode;
+    public Panner: StereoPannerNode;
+    public SpatialPanner: PannerNode;
 }
 
 interface OnMediaStreamAvailable {
     (stream: MediaStream): void;
 }
 
+interface OnSettingsChanged {
+    (settings: IUserMediaSettings): void;
+}
+
+interface OnSettingChanged<T> {
+    (change: SettingChange<T>): void;
+}
+
+interface OnTransmittingChanged {
+    (isTransmitting: boolean): void;
+}
+
+interface OnNoiseSuppressorStatusChanged {
+    (status: NoiseSuppressorStatus): void;
+}
+
+interface OnDevicesChanged {
+    (settings: IUserMediaSettings): void;
+}
+
+interface OnDeviceChanged {
+    (settingKey: string, device: MediaDeviceInfo): void;
+}
+
 export class UserMedia implements IUserMedia {
-    private remoteStreams: { [tag: string]: MediaStreamAudioSourceNode; } = {};
+    private remoteStreams: { [tag: string]: RemoteAudio; } = {};
+    // Kept after a stream is removed, so they still apply if the attendee reconnects
+    private remoteAudioSettings: { [tag: string]: RemoteAudioSettings; } = {};
+    private remotePositions: { [tag: string]: number[]; } = {};
+
+    // How far away, in metres, an attendee at the edge of the room sounds
+    private static readonly SpatialRoomSize: number = 3;
     private audioContext: AudioContext;
     private inputGainNode: GainNode;
     private inputAnalyserNode: AnalyserNode;
-    private inputCompressorNode: DynamicsCompressorNode;
+    private inputGateNode: GainNode;
+    // Everyone's audio, as sent rather than as we hear it, for recording
+    private mixNode: GainNode;
+    private mixStream: MediaStream;
+    private readonly inputEffects: IAudioEffect[] = AudioEffectChain.CreateEffects();
+    private readonly inputEffectChain: AudioEffectChain = new AudioEffectChain(this.inputEffects);
+    private readonly noiseSuppressor: NoiseSuppressorEffect = <NoiseSuppressorEffect>this.inputEffects.find(effect => effect instanceof NoiseSuppressorEffect);
     private inputStreamAudioNode: AudioNode;
     private inputAudioChannels: number;
+    private capturedTracks: MediaStreamTrack[] = [];
+    private capturedStream: MediaStream;
+    private capturedVideoTrack: MediaStreamTrack;
+    private inputSourceNode: MediaStreamAudioSourceNode;
 
     private outputAnalyserNode: AnalyserNode;
+    private outputNode: AudioNode;
+    private outputElement: HTMLAudioElement;
 
     private currentSettings: IUserMediaSettings = new UserMediaSettings();
+    private settingListeners: { [key: string]: OnSettingChanged<any>[]; } = {};
+    // Unplugged since the devices were last listed, so we can say which one we switched away from
+    private removedDevices: MediaDeviceInfo[] = [];
+    private mediaStreamRequest: Promise<MediaStream> = null;
+    private queuedMediaStreamRequest: Promise<MediaStream> = null;
+    // What was saved before settings were changed without persisting them
+    private unsavedValues: { [key: string]: any; } = {};
+    private readonly deviceManager: DeviceManager = new DeviceManager();
+    private readonly transmitGate: TransmitGate = new TransmitGate();
+
+    // Which kind of device each device setting chooses between
+    public static readonly DeviceSettings: { [settingKey: string]: MediaDeviceKind } = {
+        AudioInputDevice: "audioinput",
+        AudioOutputDevice: "audiooutput",
+        VideoInputDevice: "videoinput"
+    };
 
     public OnMediaStreamAvailable: OnMediaStreamAvailable;
+    public OnSettingsChanged: OnSettingsChanged;
+    public OnDevicesChanged: OnDevicesChanged;
+    public OnDeviceAdded: OnDeviceChanged;
+    public OnDeviceLost: OnDeviceChanged;
+    public OnTransmittingChanged: OnTransmittingChanged;
+    public OnNoiseSuppressorStatusChanged: OnNoiseSuppressorStatusChanged;
     public inputStreamMonitorAudioNode: GainNode;
 
+    constructor() {
+        SettingsStore.Load(this.currentSettings);
+        this.deviceManager.OnDevicesChanged = () => this.DevicesChanged();
+        this.deviceManager.OnDeviceAdded = device => this.DeviceAdded(device);
+        this.deviceManager.OnDeviceRemoved = device => this.DeviceRemoved(device);
+
+        this.transmitGate.OnTransmittingChanged = isTransmitting => {
+            if (this.OnTransmittingChanged != null) {
+                this.OnTransmittingChanged(isTransmitting);
+            }
+        };
+        this.transmitGate.SetSettings(this.currentSettings);
+
+        this.noiseSuppressor.OnStatusChanged = status => {
+            if (this.OnNoiseSuppressorStatusChanged != null) {
+                this.OnNoiseSuppressorStatusChanged(status);
+            }
+        };
+    }
+
     public GetSettings(): IUserMediaSettings {
         return JSON.parse(JSON.stringify(this.currentSettings));
     }
 
-    public async SetSettings(newSettings: IUserMediaSettings): Promise<void> {
-        let shouldRefreshMediaAccess: boolean;
+    // Keeps the devices which are available, and whether the screen is being shared
+    public GetDefaultSettings(): IUserMediaSettings {
+        const settings: IUserMediaSettings = new UserMediaSettings();
+        settings.ScreenEnabled.Value = this.currentSettings.ScreenEnabled.Value;
 
-        if (this.currentSettings.ScreenEnabled.Value !== newSettings.ScreenEnabled.Value) {
-            shouldRefreshMediaAccess = true;
+        for (let settingKey in UserMedia.DeviceSettings) {
+            settings[settingKey].Options = this.currentSettings[settingKey].Options;
+            settings[settingKey].OptionLabels = this.currentSettings[settingKey].OptionLabels;
         }
 
-        if (this.currentSettings.AudioAutoGainControl.Value !== newSettings.AudioAutoGainControl.Value) {
-            shouldRefreshMediaAccess = true;
-        }
+        return JSON.parse(JSON.stringify(settings));
+    }
 
-        if (this.currentSettings.AudioEchoCancellation.Value !== newSettings.AudioEchoCancellation.Value) {
-            shouldRefreshMediaAccess = true;
+    // Settings which aren't persisted, such as from a link, only last until the page is closed
+    public async SetSettings(newSettings: IUserMediaSettings, persist: boolean = true): Promise<void> {
+        // Settings describe themselves, so check values against our copy rather than theirs
+        for (let key in this.currentSettings) {
+            if (!newSettings.hasOwnProperty(key)) {
+                continue;
+            }
+
+            try {
+                newSettings[key].Value = SettingsSchema.Normalise(this.currentSettings[key], newSettings[key].Value);
+            }
+            catch (err) {
+                console.warn("Keeping the current value of " + key + ", " + err.message);
+                newSettings[key].Value = this.currentSettings[key].Value;
+            }
         }
 
-        if (this.currentSettings.AudioNoiseSuppression.Value !== newSettings.AudioNoiseSuppression.Value) {
-            shouldRefreshMediaAccess = true;
-        }
+        const changes: SettingChange<any>[] = SettingsSchema.GetChanges(this.currentSettings, newSettings);
+        const applyStrategy: SettingApplyStrategy = SettingsSchema.GetApplyStrategy(changes);
+        const hasChanged = (key: string) => changes.some(change => change.Key == key);
 
-        if (this.currentSettings.AudioLocalMeter.Value !== newSettings.AudioLocalMeter.Value) {
-            shouldRefreshMediaAccess = true;
-        }
+        // These are cheap so don't need to be switched on/off
+        this.inputEffectChain.SetSettings(newSettings);
+        this.SetGainParameters(newSettings);
+        this.SetListenerParameters(newSettings);
+        this.transmitGate.SetSettings(newSettings);
+
+        this.currentSettings = newSettings;
+        this.SaveSettings(changes, persist);
 
-        if (this.currentSettings.VideoEnabled.Value !== newSettings.VideoEnabled.Value) {
-            shouldRefreshMediaAccess = true;
+        if (hasChanged("AudioSpatial")) {
+            for (let tag in this.remoteStreams) {
+                this.ConnectRemoteAudio(this.remoteStreams[tag]);
+            }
         }
 
-        if (this.currentSettings.VideoResolution.Value !== newSettings.VideoResolution.Value) {
-            shouldRefreshMediaAccess = true;
+        if (hasChanged("AudioOutputDevice")) {
+            this.SetOutputDevice();
         }
 
-        if (this.currentSettings.VideoFrameRate.Value !== newSettings.VideoFrameRate.Value) {
-            shouldRefreshMediaAccess = true;
+        changes.forEach(change => this.SettingChanged(change));
+
+        if (this.OnSettingsChanged != null) {
+            this.OnSettingsChanged(this.GetSettings());
         }
 
-        if (this.currentSettings.AudioStereo.Value !== newSettings.AudioStereo.Value) {
-            shouldRefreshMediaAccess = true;
+        if (applyStrategy == SettingApplyStrategy.Reacquire) {
+            await this.GetMediaStream();
+        }
+        else if (applyStrategy == SettingApplyStrategy.Reprocess && this.capturedStream != null) {
+            this.ProcessMediaStream();
         }
+    }
 
-        if (this.currentSettings.AudioCompressor.Value !== newSettings.AudioCompressor.Value) {
-            shouldRefreshMediaAccess = true;
+    // Listeners are called after the setting has changed, with its old and new values
+    public AddSettingListener<K extends keyof UserMediaSettings>(key: K, listener: OnSettingChanged<UserMediaSettings[K]["Value"]>): void {
+        if (!this.settingListeners.hasOwnProperty(key)) {
+            this.settingListeners[key] = [];
         }
 
-        // These are cheap so don't need to be switched on/off
-        this.SetCompressionParameters(newSettings);
-        this.SetGainParameters(newSettings);
+        this.settingListeners[key].push(listener);
+    }
 
-        this.currentSettings = newSettings;
+    private SaveSettings(changes: SettingChange<any>[], persist: boolean): void {
+        changes.forEach(change => {
+            if (persist) {
+                delete this.unsavedValues[change.Key];
+            }
+            else if (!this.unsavedValues.hasOwnProperty(change.Key)) {
+                this.unsavedValues[change.Key] = change.OldValue;
+            }
+        });
+
+        // Anything changed without persisting stays at its saved value until changed again
+        const savedSettings: IUserMediaSettings = this.GetSettings();
+        for (let key in this.unsavedValues) {
+            if (this.unsavedValues.hasOwnProperty(key)) {
+                savedSettings[key].Value = this.unsavedValues[key];
+            }
+        }
 
-        // If we should refresh media access, and there is currently a stream to refresh
-        if (shouldRefreshMediaAccess) {
-            await this.GetMediaStream();
+        SettingsStore.Save(savedSettings);
+    }
+
+    private SettingChanged(change: SettingChange<any>): void {
+        if (this.settingListeners.hasOwnProperty(change.Key)) {
+            this.settingListeners[change.Key].forEach(listener => listener(change));
         }
     }
 
@@ -210,34 +479,336 @@ export class UserMedia implements IUserMedia {
         // Lazy initialise the audio context
         if (this.audioContext == null) {
             this.audioContext = new audioContext();
+            this.SetListenerParameters(this.currentSettings);
         }
 
         return this.audioContext;
     }
 
+    // Everything we play goes through here, so that it all goes to the chosen speakers
+    private GetOutputNode(): AudioNode {
+        if (this.outputNode != null) {
+            return this.outputNode;
+        }
+
+        const audioContext = this.GetAudioContext() as { [key: string]: any };
+        if (typeof audioContext['setSinkId'] !== "function" && "setSinkId" in HTMLMediaElement.prototype) {
+            // Older browsers can only choose the speakers of a media element
+            const destination: MediaStreamAudioDestinationNode = this.GetAudioContext().createMediaStreamDestination();
+            this.outputElement = document.createElement("audio");
+            this.outputElement.srcObject = destination.stream;
+            this.outputElement.play();
+            this.outputNode = destination;
+        }
+        else {
+            this.outputNode = this.GetAudioContext().destination;
+        }
+
+        this.SetOutputDevice();
+        return this.outputNode;
+    }
+
+    private async SetOutputDevice(): Promise<void> {
+        // An empty ID means the system default
+        const deviceId: string = this.currentSettings.AudioOutputDevice.Value == "default" ? "" : this.currentSettings.AudioOutputDevice.Value;
+
+        // setSinkId is newer than the DOM typings
+        const sink = (this.outputElement != null ? this.outputElement : this.audioContext) as { [key: string]: any };
+        if (sink == null || typeof sink['setSinkId'] !== "function") {
+            return;
+        }
+
+        try {
+            await sink['setSinkId'](deviceId);
+        }
+        catch (err) {
+            console.warn("Unable to change speakers: " + err);
+        }
+    }
+
+    private DevicesChanged(): void {
+        let shouldRefreshMediaAccess: boolean = false;
+
+        for (let settingKey in UserMedia.DeviceSettings) {
+            const kind: MediaDeviceKind = UserMedia.DeviceSettings[settingKey];
+            const devices: MediaDeviceInfo[] = this.deviceManager.GetDevices(kind);
+
+            const setting: UserSettingsSelection<string> = this.currentSettings[settingKey];
+            setting.Options = ["default"].concat(devices.map(device => device.deviceId));
+            setting.OptionLabels = ["Default"].concat(devices.map((device, index) => UserMedia.GetDeviceLabel(device, index)));
+
+            // Fall back rather than keep using a device that isn't there, but
+            // don't save it so the device is picked again next time
+            if (setting.Value != "default" && !this.deviceManager.HasDevice(kind, setting.Value)) {
+                const change: SettingChange<string> = new SettingChange<string>();
+                change.Key = settingKey;
+                change.OldValue = setting.Value;
+                change.NewValue = "default";
+                change.ApplyStrategy = setting.ApplyStrategy;
+
+                setting.Value = "default";
+                this.SettingChanged(change);
+
+                const lostDevice: MediaDeviceInfo = this.removedDevices.filter(device => device.kind == kind && device.deviceId == change.OldValue)[0];
+                if (lostDevice != null && this.OnDeviceLost != null) {
+                    this.OnDeviceLost(settingKey, lostDevice);
+                }
+
+                shouldRefreshMediaAccess = shouldRefreshMediaAccess || kind != "audiooutput";
+                if (kind == "audiooutput") {
+                    this.SetOutputDevice();
+                }
+            }
+        }
+
+        this.removedDevices = [];
+
+        if (this.OnDevicesChanged != null) {
+            this.OnDevicesChanged(this.GetSettings());
+        }
+
+        if (shouldRefreshMediaAccess) {
+            this.GetMediaStream().catch(err => console.error(err));
+        }
+    }
+
+    private DeviceAdded(device: MediaDeviceInfo): void {
+        for (let settingKey in UserMedia.DeviceSettings) {
+            if (UserMedia.DeviceSettings[settingKey] == device.kind && this.currentSettings[settingKey].Value != device.deviceId && this.OnDeviceAdded != null) {
+                this.OnDeviceAdded(settingKey, device);
+            }
+        }
+    }
+
+    // Reported once we've switched away from it, if it was in use
+    private DeviceRemoved(device: MediaDeviceInfo): void {
+        this.removedDevices.push(device);
+    }
+
+    private static GetDeviceLabel(device: MediaDeviceInfo, index: number): string {
+        if (device.label.length > 0) {
+            return device.label;
+        }
+
+        const names: { [kind: string]: string } = { audioinput: "Microphone", audiooutput: "Speakers", videoinput: "Camera" };
+        return names[device.kind] + " " + (index + 1);
+    }
+
+    private static GetDeviceConstraint(deviceId: string): ConstrainDOMString {
+        // Ideal rather than exact, so a missing device falls back to another one
+        return deviceId == "default" ? undefined : { ideal: deviceId };
+    }
+
     public AddRemoteStream(tag: string, mediaStream: MediaStream): void {
         if (this.outputAnalyserNode == null) {
             this.outputAnalyserNode = this.GetAudioContext().createAnalyser();
-            this.outputAnalyserNode.connect(this.GetAudioContext().destination);
+            this.outputAnalyserNode.connect(this.GetOutputNode());
         }
 
         this.RemoveRemoteStream(tag);
-        this.remoteStreams[tag] = this.GetAudioContext().createMediaStreamSource(mediaStream);
-        this.remoteStreams[tag].connect(this.outputAnalyserNode);
+
+        const remoteAudio: RemoteAudio = new RemoteAudio();
+        remoteAudio.Source = this.GetAudioContext().createMediaStreamSource(mediaStream);
+        remoteAudio.Gain = this.GetAudioContext().createGain();
+        remoteAudio.Panner = this.GetAudioContext().createStereoPanner();
+
+        remoteAudio.SpatialPanner = this.GetAudioContext().createPanner();
+        remoteAudio.SpatialPanner.panningModel = "HRTF";
+        remoteAudio.SpatialPanner.distanceModel = "inverse";
+        remoteAudio.SpatialPanner.refDistance = 1;
+        remoteAudio.SpatialPanner.rolloffFactor = 0.3;
+
+        remoteAudio.Analyser = this.GetAudioContext().createAnalyser();
+        remoteAudio.Analyser.fftSize = 512;
+
+        remoteAudio.Source.connect(remoteAudio.Analyser);
+        remoteAudio.Source.connect(this.GetMixNode());
+        remoteAudio.Source.connect(remoteAudio.Gain);
+        remoteAudio.Gain.connect(remoteAudio.Panner);
+        remoteAudio.SpatialPanner.connect(this.outputAnalyserNode);
+
+        this.remoteStreams[tag] = remoteAudio;
+        this.ConnectRemoteAudio(remoteAudio);
+        this.ApplyRemoteAudioSettings(tag);
+        this.ApplyRemotePosition(tag);
+    }
+
+    // Spatial audio adds a panner between each attendee and the output
+    private ConnectRemoteAudio(remoteAudio: RemoteAudio): void {
+        remoteAudio.Panner.disconnect();
+        remoteAudio.Panner.connect(this.currentSettings.AudioSpatial.Value ? remoteAudio.SpatialPanner : this.outputAnalyserNode);
+    }
+
+    // Both from -1 to 1, with x going from left to right and y from behind to in front of you
+    public SetRemotePosition(tag: string, x: number, y: number): void {
+        this.remotePositions[tag] = [x, y];
+        this.ApplyRemotePosition(tag);
+    }
+
+    private ApplyRemotePosition(tag: string): void {
+        if (!this.remoteStreams.hasOwnProperty(tag) || !this.remotePositions.hasOwnProperty(tag)) {
+            return;
+        }
+
+        // The listener is in the middle of the room, facing along negative z
+        const panner: PannerNode = this.remoteStreams[tag].SpatialPanner;
+        const position: number[] = this.remotePositions[tag];
+        const time: number = this.GetAudioContext().currentTime;
+        panner.positionX.setValueAtTime(position[0] * UserMedia.SpatialRoomSize, time);
+        panner.positionY.setValueAtTime(0, time);
+        panner.positionZ.setValueAtTime(-position[1] * UserMedia.SpatialRoomSize, time);
+    }
+
+    private SetListenerParameters(newSettings: UserMediaSettings): void {
+        if (this.audioContext == null) {
+            return;
+        }
+
+        const angle: number = Number(newSettings.AudioSpatialDirection.Value) * Math.PI / 180;
+        const listener: AudioListener = this.audioContext.listener;
+
+        // Firefox only supports the older way of setting orientation
+        if (listener.forwardX != null) {
+            const time: number = this.audioContext.currentTime;
+            listener.forwardX.setValueAtTime(Math.sin(angle), time);
+            listener.forwardY.setValueAtTime(0, time);
+            listener.forwardZ.setValueAtTime(-Math.cos(angle), time);
+            listener.upX.setValueAtTime(0, time);
+            listener.upY.setValueAtTime(1, time);
+            listener.upZ.setValueAtTime(0, time);
+        }
+        else {
+            listener.setOrientation(Math.sin(angle), 0, -Math.cos(angle), 0, 1, 0);
+        }
     }
 
     public RemoveRemoteStream(tag: string): void {
         if (this.remoteStreams.hasOwnProperty(tag)) {
-            this.remoteStreams[tag].disconnect(this.outputAnalyserNode);
+            this.remoteStreams[tag].Source.disconnect();
+            this.remoteStreams[tag].Panner.disconnect();
+            this.remoteStreams[tag].SpatialPanner.disconnect();
             delete this.remoteStreams[tag];
         }
     }
 
-    public async GetMediaStream(): Promise<MediaStream> {
+    public SetPushToTalk(isPressed: boolean): void {
+        this.transmitGate.SetPushToTalk(isPressed);
+    }
+
+    public IsTransmitting(): boolean {
+        return this.transmitGate.IsTransmitting();
+    }
+
+    // In decibels at each frequency, from the current settings even if the equaliser is off
+    public GetEqualiserResponse(frequencies: Float32Array): Float32Array {
+        return EqualiserEffect.GetResponse(this.GetAudioContext(), this.currentSettings, frequencies);
+    }
+
+    public LearnNoiseProfile(): void {
+        this.noiseSuppressor.LearnNoiseProfile();
+    }
+
+    public GetNoiseSuppressorStatus(): NoiseSuppressorStatus {
+        return this.noiseSuppressor.GetStatus();
+    }
+
+    private GetMixNode(): GainNode {
+        if (this.mixNode == null) {
+            this.mixNode = this.GetAudioContext().createGain();
+        }
+
+        return this.mixNode;
+    }
+
+    public GetMixedAudioStream(): MediaStream {
+        if (this.mixStream == null) {
+            const destination: MediaStreamAudioDestinationNode = this.GetAudioContext().createMediaStreamDestination();
+            this.GetMixNode().connect(destination);
+            this.mixStream = destination.stream;
+        }
+
+        return this.mixStream;
+    }
+
+    // In decibels relative to full scale
+    public GetRemoteLevel(tag: string): number {
+        if (!this.remoteStreams.hasOwnProperty(tag)) {
+            return -Infinity;
+        }
+
+        return UserMedia.GetLevelFromAnalyser(this.remoteStreams[tag].Analyser);
+    }
+
+    public GetRemoteAudioSettings(tag: string): RemoteAudioSettings {
+        return JSON.parse(JSON.stringify(this.GetOrCreateRemoteAudioSettings(tag)));
+    }
+
+    public SetRemoteVolume(tag: string, volume: number): void {
+        this.GetOrCreateRemoteAudioSettings(tag).Volume = Math.max(0, volume);
+        this.ApplyRemoteAudioSettings(tag);
+    }
+
+    public SetRemoteMuted(tag: string, muted: boolean): void {
+        this.GetOrCreateRemoteAudioSettings(tag).Muted = muted;
+        this.ApplyRemoteAudioSettings(tag);
+    }
+
+    public SetRemotePan(tag: string, pan: number): void {
+        this.GetOrCreateRemoteAudioSettings(tag).Pan = Math.max(-1, Math.min(1, pan));
+        this.ApplyRemoteAudioSettings(tag);
+    }
+
+    private GetOrCreateRemoteAudioSettings(tag: string): RemoteAudioSettings {
+        if (!this.remoteAudioSettings.hasOwnProperty(tag)) {
+            this.remoteAudioSettings[tag] = new RemoteAudioSettings();
+        }
+
+        return this.remoteAudioSettings[tag];
+    }
+
+    private ApplyRemoteAudioSettings(tag: string): void {
+        if (!this.remoteStreams.hasOwnProperty(tag)) {
+            return;
+        }
+
+        const settings: RemoteAudioSettings = this.GetOrCreateRemoteAudioSettings(tag);
+        this.remoteStreams[tag].Gain.gain.value = settings.Muted ? 0 : settings.Volume;
+        this.remoteStreams[tag].Panner.pan.value = settings.Pan;
+    }
+
+    // Requests which overlap could finish in any order, leaving us with the wrong devices,
+    // so wait for the one in flight and then start again with the latest settings
+    public GetMediaStream(): Promise<MediaStream> {
+        if (this.mediaStreamRequest == null) {
+            const request: Promise<MediaStream> = this.AcquireMediaStream();
+            this.mediaStreamRequest = request;
+
+            const finished = (): void => {
+                this.mediaStreamRequest = null;
+            };
+            request.then(finished, finished);
+            return request;
+        }
+
+        // Everyone asking in the meantime shares the same next request
+        if (this.queuedMediaStreamRequest == null) {
+            this.queuedMediaStreamRequest = this.mediaStreamRequest
+                .catch(() => null)
+                .then(() => {
+                    this.queuedMediaStreamRequest = null;
+                    return this.GetMediaStream();
+                });
+        }
+
+        return this.queuedMediaStreamRequest;
+    }
+
+    private async AcquireMediaStream(): Promise<MediaStream> {
         const audioConstraints: MediaTrackConstraints = {};
         audioConstraints.noiseSuppression = this.currentSettings.AudioNoiseSuppression.Value;
         audioConstraints.echoCancellation = this.currentSettings.AudioEchoCancellation.Value;
         audioConstraints.autoGainControl = this.currentSettings.AudioAutoGainControl.Value;
+        audioConstraints.deviceId = UserMedia.GetDeviceConstraint(this.currentSettings.AudioInputDevice.Value);
 
         const videoResolutions: { [fromId: string]: number[]; } = {
             '480p': [854, 480],
@@ -258,6 +829,7 @@ export class UserMedia implements IUserMedia {
         videoConstraints.width = videoWidthRange;
         videoConstraints.height = videoHeightRange;
         videoConstraints.frameRate = videoFrameRate;
+        videoConstraints.deviceId = UserMedia.GetDeviceConstraint(this.currentSettings.VideoInputDevice.Value);
 
         const constraints: MediaStreamConstraints = {};
         constraints.audio = audioConstraints;
@@ -267,6 +839,9 @@ export class UserMedia implements IUserMedia {
 
         const stream: MediaStream = await navigator.mediaDevices.getUserMedia(constraints);
 
+        // Labels are only available once we have permission
+        await this.deviceManager.Refresh();
+
         const audioTracks: MediaStreamTrack[] = stream.getAudioTracks();
         console.assert(audioTracks.length == 1, "Expected 1 audio track, there are " + audioTracks.length);
 
@@ -281,7 +856,31 @@ export class UserMedia implements IUserMedia {
 
         console.assert(videoTracks.length <= 1, "Expected 1 or 0 video tracks, there are " + videoTracks.length);
 
-        this.inputStreamAudioNode = this.ProcessAudioTrackToMono(stream);
+        // Peers swap to the new tracks without renegotiating, so the old ones
+        // can be stopped straight away, which also turns off the camera light
+        this.capturedTracks.forEach(track => track.stop());
+        this.capturedTracks = stream.getTracks().concat(videoTracks.filter(track => stream.getTracks().indexOf(track) < 0));
+
+        // A device being unplugged ends its track, even if it was the default device
+        stream.getTracks().forEach(track => {
+            track.onended = () => {
+                if (this.capturedTracks.indexOf(track) >= 0) {
+                    console.warn("The " + track.kind + " track ended, reacquiring media");
+                    this.GetMediaStream().catch(err => console.error(err));
+                }
+            };
+        });
+
+        this.capturedStream = stream;
+        this.capturedVideoTrack = videoTracks.length > 0 ? videoTracks[0] : null;
+
+        await NoiseSuppressorEffect.LoadModule(this.GetAudioContext());
+        return this.ProcessMediaStream();
+    }
+
+    // Builds the audio graph for what we've captured, and hands the result to everyone
+    private ProcessMediaStream(): MediaStream {
+        this.inputStreamAudioNode = this.ProcessAudioTrackToMono(this.capturedStream);
 
         if (this.inputStreamMonitorAudioNode != null) {
             this.inputStreamMonitorAudioNode.disconnect();
@@ -289,7 +888,7 @@ export class UserMedia implements IUserMedia {
 
         this.inputStreamMonitorAudioNode = this.GetAudioContext().createGain();
         this.inputStreamMonitorAudioNode.gain.value = this.currentSettings.AudioLocalListen.Value;
-        this.inputStreamMonitorAudioNode.connect(this.GetAudioContext().destination);
+        this.inputStreamMonitorAudioNode.connect(this.GetOutputNode());
 
         this.inputStreamAudioNode.connect(this.inputStreamMonitorAudioNode);
 
@@ -297,8 +896,8 @@ export class UserMedia implements IUserMedia {
         this.inputStreamAudioNode.connect(inputStreamNode);
 
         let inputStream = inputStreamNode.stream;
-        if (videoTracks.length > 0) {
-            inputStream.addTrack(videoTracks[0]);
+        if (this.capturedVideoTrack != null) {
+            inputStream.addTrack(this.capturedVideoTrack);
         }
 
         if (this.OnMediaStreamAvailable != null) {
@@ -318,6 +917,21 @@ export class UserMedia implements IUserMedia {
         return sampleBuffer;
     }
 
+    // The RMS level in decibels relative to full scale
+    public static GetLevelFromAnalyser(analyserNode: AnalyserNode): number {
+        const samples: Float32Array = UserMedia.GetTimeDomainDataFromAnalyser(analyserNode);
+        if (samples.length == 0) {
+            return -Infinity;
+        }
+
+        let sumOfSquares: number = 0;
+        for (let i = 0; i < samples.length; i++) {
+            sumOfSquares += samples[i] * samples[i];
+        }
+
+        return 20 * Math.log10(Math.sqrt(sumOfSquares / samples.length));
+    }
+
     private static GetFrequencyDataFromAnalyser(analyserNode: AnalyserNode): Uint8Array {
         if (analyserNode == null) {
             return new Uint8Array(0);
@@ -364,20 +978,13 @@ export class UserMedia implements IUserMedia {
         }
     }
 
-    private SetCompressionParameters(newSettings: UserMediaSettings): void {
-        if (this.inputCompressorNode == null) {
-            return;
+    private ProcessAudioTrackToMono(stream: MediaStream): AudioNode {
+        if (this.inputSourceNode != null) {
+            this.inputSourceNode.disconnect();
         }
 
-        this.inputCompressorNode.threshold.value = newSettings.AudioCompressorThreshold.Value;
-        this.inputCompressorNode.knee.value = newSettings.AudioCompressorKnee.Value;
-        this.inputCompressorNode.ratio.value = newSettings.AudioCompressorRatio.Value;
-        this.inputCompressorNode.attack.value = newSettings.AudioCompressorAttack.Value;
-        this.inputCompressorNode.release.value = newSettings.AudioCompressorRelease.Value;
-    }
-
-    private ProcessAudioTrackToMono(stream: MediaStream): AudioNode {
         const source: MediaStreamAudioSourceNode = this.GetAudioContext().createMediaStreamSource(stream);
+        this.inputSourceNode = source;
         this.inputAudioChannels = source.channelCount;
 
         this.inputGainNode = this.GetAudioContext().createGain();
@@ -387,20 +994,20 @@ export class UserMedia implements IUserMedia {
 
         source.connect(this.inputGainNode);
 
-        let lastNode: AudioNode = this.inputGainNode;
-
-        if (this.currentSettings.AudioCompressor.Value) {
-            this.inputCompressorNode = this.GetAudioContext().createDynamicsCompressor();
-            this.SetCompressionParameters(this.currentSettings);
-            lastNode.connect(this.inputCompressorNode);
-            lastNode = this.inputCompressorNode;
-        }
-        else {
-            this.inputCompressorNode = null;
-        }
+        const lastNode: AudioNode = this.inputEffectChain.Build(this.GetAudioContext(), this.inputGainNode, this.currentSettings);
 
         this.inputAnalyserNode = this.GetAudioContext().createAnalyser();
         lastNode.connect(this.inputAnalyserNode);
-        return this.inputAnalyserNode;
+
+        if (this.inputGateNode != null) {
+            this.inputGateNode.disconnect();
+        }
+
+        // Everyone else, and the self listen, only hear what gets through the gate
+        this.inputGateNode = this.GetAudioContext().createGain();
+        this.inputAnalyserNode.connect(this.inputGateNode);
+        this.inputGateNode.connect(this.GetMixNode());
+        this.transmitGate.SetNodes(this.inputAnalyserNode, this.inputGateNode);
+        return this.inputGateNode;
     }
 }
\ No newline at end of file
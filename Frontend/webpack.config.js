@@ -1,4 +1,5 @@
 const path = require('path');
+const webpack = require('webpack');
 
 module.exports = {
   mode: 'production',
@@ -13,6 +14,15 @@ module.exports = {
       },
     ],
   },
+  plugins: [
+    new webpack.DefinePlugin({
+      SIGNALLING_URL: JSON.stringify(process.env.SIGNALLING_URL || 'wss://c4x3tpp039.execute-api.eu-west-1.amazonaws.com/default'),
+      SIGNALLING_BROKER: JSON.stringify(process.env.SIGNALLING_BROKER || 'websocket'),
+      ICE_SERVERS: JSON.stringify(process.env.ICE_SERVERS || 'stun:stun.l.google.com:19302'),
+      ICE_TRANSPORT_POLICY: JSON.stringify(process.env.ICE_TRANSPORT_POLICY || 'all'),
+      TURN_CREDENTIALS_URL: JSON.stringify(process.env.TURN_CREDENTIALS_URL || ''),
+    }),
+  ],
   resolve: {
     extensions: [ '.tsx', '.ts', '.js' ],
   },